@@ -36,6 +36,7 @@ export default [
         // URL and other Web APIs available in Node.js
         URL: 'readonly',
         URLSearchParams: 'readonly',
+        AbortSignal: 'readonly',
         // NodeJS namespace for types
         NodeJS: 'readonly',
       },
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { Address, formatTransactionReceipt, Hex, RpcTransactionReceipt, TransactionReceipt } from 'viem';
+import {
+  buildChainPayment,
+  decodeYodlPayment,
+  getTokenCurrency,
+} from '../services/payment-source/chain-payment-source.service.js';
+
+const ROUTER = '0x000000000000000000000000000000000000A0d1';
+const USDC_BASE = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+// Receipts as returned by eth_getTransactionReceipt
+function loadReceipt(name: string): TransactionReceipt {
+  const raw = readFileSync(new URL(`./fixtures/receipts/${name}.json`, import.meta.url), 'utf8');
+  return formatTransactionReceipt(JSON.parse(raw) as RpcTransactionReceipt);
+}
+
+describe('decodeYodlPayment', () => {
+  it('decodes the payment emitted by a router', () => {
+    const decoded = decodeYodlPayment(loadReceipt('router-payment'), [ROUTER]);
+
+    assert.ok(decoded);
+    assert.equal(decoded.memo, 'Chopp x2');
+    assert.equal(decoded.amount, 10_000_000n);
+    assert.equal(decoded.fees, 20_000n);
+    assert.equal(decoded.token.toLowerCase(), USDC_BASE.toLowerCase());
+    assert.equal(decoded.receiver, '0x66a31Aa400dd8C11f9af054c3b7bCcB783B4901B');
+  });
+
+  it('takes the payment index from the position of the log in the transaction', () => {
+    assert.equal(decodeYodlPayment(loadReceipt('router-payment'), [ROUTER])?.paymentIndex, 2);
+    assert.equal(decodeYodlPayment(loadReceipt('impostor-before-router-payment'), [ROUTER])?.paymentIndex, 2);
+  });
+
+  it('ignores Yodl events emitted by other contracts', () => {
+    assert.equal(decodeYodlPayment(loadReceipt('impostor-payment'), [ROUTER]), null);
+  });
+
+  it('accepts no events without routers', () => {
+    assert.equal(decodeYodlPayment(loadReceipt('router-payment'), []), null);
+  });
+
+  it('returns null for transactions without a Yodl payment', () => {
+    assert.equal(decodeYodlPayment(loadReceipt('token-transfer'), [ROUTER]), null);
+  });
+});
+
+describe('getTokenCurrency', () => {
+  const tokenCurrencies = { [USDC_BASE]: 'USD' };
+
+  it('matches accepted tokens by contract address in any case', () => {
+    assert.equal(getTokenCurrency(tokenCurrencies, USDC_BASE.toLowerCase() as Address), 'USD');
+  });
+
+  it('rejects tokens that are not listed, whatever their symbol', () => {
+    assert.equal(getTokenCurrency(tokenCurrencies, '0x00000000000000000000000000000000000bad02'), undefined);
+    assert.equal(getTokenCurrency(undefined, USDC_BASE), undefined);
+  });
+});
+
+describe('buildChainPayment', () => {
+  it('builds the payment from the decoded receipt', () => {
+    const receipt = loadReceipt('router-payment');
+    const decoded = decodeYodlPayment(receipt, [ROUTER])!;
+
+    const payment = buildChainPayment(
+      8453,
+      receipt.transactionHash as Hex,
+      decoded,
+      { symbol: 'USDC', decimals: 6 },
+      1_760_000_000n,
+      { sender: '', receiver: 'marketplace.ipecity.eth' },
+      'USD'
+    );
+
+    assert.equal(payment.paymentIndex, 2);
+    assert.equal(payment.invoiceAmount, '10');
+    assert.equal(payment.invoiceCurrency, 'USD');
+    assert.equal(payment.tokenOutSymbol, 'USDC');
+    assert.equal(payment.receiverEnsPrimaryName, 'marketplace.ipecity.eth');
+    assert.equal(payment.memo, 'Chopp x2');
+    assert.equal(payment.blockTimestamp, new Date(1_760_000_000_000).toISOString());
+  });
+});
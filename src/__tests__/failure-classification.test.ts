@@ -0,0 +1,49 @@
+import createHttpError from 'http-errors';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { classifyFailure, retryable, terminal } from '../utils/failure-classification.js';
+
+// A network failure as fetch reports it
+function fetchFailure(code: string): Error {
+  return Object.assign(new TypeError('fetch failed'), { cause: Object.assign(new Error(code), { code }) });
+}
+
+describe('classifyFailure', () => {
+  it('retries HTTP timeouts, rate limits and server errors', () => {
+    assert.deepEqual(classifyFailure(createHttpError(408)), retryable('timeout'));
+    assert.deepEqual(classifyFailure(createHttpError(429)), retryable('rate_limited'));
+    assert.deepEqual(classifyFailure(createHttpError(500)), retryable('device_unavailable'));
+    assert.deepEqual(classifyFailure(createHttpError(503)), retryable('device_unavailable'));
+  });
+
+  it('dead-letters other HTTP client errors right away', () => {
+    assert.deepEqual(classifyFailure(createHttpError(401)), terminal('tap_misconfigured'));
+    assert.deepEqual(classifyFailure(createHttpError(403)), terminal('tap_misconfigured'));
+    assert.deepEqual(classifyFailure(createHttpError(404)), terminal('device_not_found'));
+    assert.deepEqual(classifyFailure(createHttpError(400)), terminal('device_rejected'));
+    assert.deepEqual(classifyFailure(createHttpError(422)), terminal('device_rejected'));
+  });
+
+  it('retries timeouts and dropped connections', () => {
+    assert.deepEqual(
+      classifyFailure(Object.assign(new Error('The operation timed out'), { name: 'TimeoutError' })),
+      retryable('timeout')
+    );
+    assert.deepEqual(classifyFailure(fetchFailure('UND_ERR_CONNECT_TIMEOUT')), retryable('timeout'));
+    assert.deepEqual(classifyFailure(Object.assign(new Error('socket'), { code: 'ETIMEDOUT' })), retryable('timeout'));
+    assert.deepEqual(classifyFailure(fetchFailure('ECONNREFUSED')), retryable('device_unavailable'));
+    assert.deepEqual(classifyFailure(fetchFailure('ENOTFOUND')), retryable('device_unavailable'));
+  });
+
+  it('dead-letters a device without credentials', () => {
+    assert.deepEqual(
+      classifyFailure(new Error('ThingsBoard authentication not configured')),
+      terminal('tap_misconfigured')
+    );
+  });
+
+  it('retries anything it does not recognise', () => {
+    assert.deepEqual(classifyFailure(new Error('Device did not confirm the pour')), retryable('unknown'));
+    assert.deepEqual(classifyFailure('boom'), retryable('unknown'));
+  });
+});
@@ -0,0 +1,5 @@
+// The config is validated when first imported, import this before any module that reads it
+process.env.REDIS_URL ??= 'redis://localhost:6379';
+process.env.SELF_ENDPOINT ??= 'https://self.example';
+process.env.THINGSBOARD_USERNAME ??= 'tenant@example.com';
+process.env.THINGSBOARD_PASSWORD ??= 'tenant';
@@ -0,0 +1,25 @@
+import type { config } from '../../config/index.js';
+
+export type BeerTap = (typeof config.beerTaps)[0];
+
+// A configured tap with the defaults of the config schema, tests override what they exercise
+export function createTap(overrides: Partial<BeerTap> = {}): BeerTap {
+  return {
+    id: 'pilsen',
+    transactionReceiverEns: 'bar.eth',
+    transactionMemo: 'Chopp',
+    transactionCurrency: 'BRL',
+    acceptedCurrencies: [],
+    fxTolerancePercent: 0,
+    transactionAmount: '10',
+    thingsBoardDeviceId: 'device-1',
+    thingsBoardCupSize: 300,
+    prices: [{ amount: '10', cupSize: 300 }],
+    overpayment: { mode: 'cups', maxCups: 1 },
+    schedule: { delayMinutes: 0, timezone: 'UTC', maxDelayMinutes: 240 },
+    fallbackTapIds: [],
+    title: 'Pilsen',
+    location: 'Bar',
+    ...overrides,
+  } as BeerTap;
+}
@@ -0,0 +1,78 @@
+import './helpers/env.js';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ParsedMemo, parseMemo, UnmatchedMemo } from '../utils/memo-parser.js';
+import { createTap } from './helpers/taps.js';
+
+const grande = { amount: '18', cupSize: 500, memoSuffix: 'grande' };
+const pilsen = createTap({ id: 'pilsen', transactionMemo: 'Chopp', prices: [{ amount: '10', cupSize: 300 }, grande] });
+const ipa = createTap({ id: 'ipa', transactionMemo: 'Chopp IPA' });
+const taps = [pilsen, ipa];
+
+function parseMatched(memo: string): ParsedMemo {
+  const result = parseMemo(memo, undefined, taps);
+  assert.equal(result.status, 'matched');
+  return result as ParsedMemo;
+}
+
+function parseUnmatched(memo: string): UnmatchedMemo {
+  const result = parseMemo(memo, undefined, taps);
+  assert.notEqual(result.status, 'matched');
+  return result as UnmatchedMemo;
+}
+
+describe('parseMemo', () => {
+  it('matches the tap and reads the directives in any order and case', () => {
+    const result = parseMatched('x2 #Order-7 chopp GRANDE in:15m');
+
+    assert.equal(result.beerTapId, 'pilsen');
+    assert.equal(result.matchedBy, 'memo');
+    assert.equal(result.quantity, 2);
+    assert.equal(result.orderReference, 'Order-7');
+    assert.equal(result.priceTier, grande);
+    assert.deepEqual(result.schedule, { type: 'delay', minutes: 15 });
+  });
+
+  it('prefers the longest tap memo and matches whole words only', () => {
+    assert.equal(parseMatched('Chopp IPA').beerTapId, 'ipa');
+    assert.equal(parseMatched('IPA chopp').beerTapId, 'pilsen');
+    assert.equal(parseUnmatched('Chopper').status, 'no_match');
+  });
+
+  it('selects a tap by id', () => {
+    const result = parseMatched('tap:IPA ref:42');
+
+    assert.equal(result.beerTapId, 'ipa');
+    assert.equal(result.matchedBy, 'tap_id');
+    assert.equal(result.orderReference, '42');
+  });
+
+  it('ignores extra words that are no directive', () => {
+    const result = parseMatched('Chopp for table 4 please');
+
+    assert.equal(result.beerTapId, 'pilsen');
+    assert.equal(result.quantity, undefined);
+    assert.equal(result.priceTier, undefined);
+  });
+
+  it('refuses malformed and repeated directives', () => {
+    assert.equal(parseUnmatched('Chopp x0').error, 'Memo quantity must be at least 1');
+    assert.equal(parseUnmatched('Chopp x2 x3').error, 'Memo specifies more than one quantity');
+    assert.equal(parseUnmatched('Chopp at:25:00').error, 'Memo pour time must be HH:MM: 25:00');
+    assert.equal(parseUnmatched('Chopp in:10m at:21:45').error, 'Memo schedules the pour more than once');
+    assert.equal(parseUnmatched('tap:pilsen tap:ipa').error, 'Memo selects more than one tap');
+    assert.equal(parseUnmatched('tap:stout').error, 'Memo selects unknown tap: stout');
+  });
+
+  it('reports taps sharing a memo as ambiguous unless the receiver tells them apart', () => {
+    const rooftop = createTap({ id: 'rooftop', transactionMemo: 'Chopp', transactionReceiverEns: 'rooftop.eth' });
+    const sharedTaps = [pilsen, rooftop];
+
+    assert.deepEqual(parseMemo('Chopp', undefined, sharedTaps), {
+      status: 'ambiguous',
+      error: 'Memo matches more than one beer tap',
+      candidates: ['pilsen', 'rooftop'],
+    });
+    assert.equal((parseMemo('Chopp', 'rooftop.eth', sharedTaps) as ParsedMemo).beerTapId, 'rooftop');
+  });
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculatePourPlan, scalePourPlan, selectPriceTier } from '../utils/pour.js';
+import { createTap } from './helpers/taps.js';
+
+const small = { amount: '10', cupSize: 300 };
+const large = { amount: '18', cupSize: 500, memoSuffix: 'grande' };
+
+describe('selectPriceTier', () => {
+  const tap = createTap({ prices: [small, large] });
+
+  it('picks the largest tier the payment covers', () => {
+    assert.equal(selectPriceTier(tap, 18), large);
+    assert.equal(selectPriceTier(tap, 17.99), small);
+    assert.equal(selectPriceTier(tap, 10), small);
+  });
+
+  it('returns null below the cheapest tier', () => {
+    assert.equal(selectPriceTier(tap, 9.99), null);
+  });
+
+  it('only selects the tier named in the memo if the payment covers it', () => {
+    assert.equal(selectPriceTier(tap, 18, large), large);
+    assert.equal(selectPriceTier(tap, 12, large), null);
+  });
+
+  it('ignores floating point noise at the tier price', () => {
+    assert.equal(selectPriceTier(createTap({ prices: [{ amount: '0.3', cupSize: 300 }] }), 0.1 + 0.2)?.amount, '0.3');
+  });
+
+  it('lowers the tier threshold by the FX tolerance', () => {
+    assert.equal(selectPriceTier(tap, 9.8, undefined, 2), small);
+    assert.equal(selectPriceTier(tap, 9.79, undefined, 2), null);
+    assert.equal(selectPriceTier(tap, 17.64, undefined, 2), large);
+    assert.equal(selectPriceTier(tap, 17.63, large, 2), null);
+  });
+});
+
+describe('calculatePourPlan', () => {
+  it('pours one cup per tier price, up to maxCups', () => {
+    const tap = createTap({ overpayment: { mode: 'cups', maxCups: 3 } });
+
+    assert.deepEqual(calculatePourPlan(tap, small, 10), { quantity: 1, cupSize: 300 });
+    assert.deepEqual(calculatePourPlan(tap, small, 29.99), { quantity: 2, cupSize: 300 });
+    assert.deepEqual(calculatePourPlan(tap, small, 100), { quantity: 3, cupSize: 300 });
+  });
+
+  it('pours a single cup for any overpayment by default', () => {
+    assert.deepEqual(calculatePourPlan(createTap(), small, 50), { quantity: 1, cupSize: 300 });
+  });
+
+  it('scales the volume up to maxVolume in proportional mode', () => {
+    const tap = createTap({ overpayment: { mode: 'proportional', maxCups: 1, maxVolume: 450 } });
+
+    assert.deepEqual(calculatePourPlan(tap, small, 12), { quantity: 1, cupSize: 360 });
+    assert.deepEqual(calculatePourPlan(tap, small, 20), { quantity: 1, cupSize: 450 });
+  });
+
+  it('keeps the tier volume in proportional mode without maxVolume', () => {
+    const tap = createTap({ overpayment: { mode: 'proportional', maxCups: 1 } });
+
+    assert.deepEqual(calculatePourPlan(tap, small, 20), { quantity: 1, cupSize: 300 });
+  });
+
+  it('refuses overpayments in reject mode', () => {
+    const tap = createTap({ overpayment: { mode: 'reject', maxCups: 1 } });
+
+    assert.deepEqual(calculatePourPlan(tap, small, 10), { quantity: 1, cupSize: 300 });
+    assert.equal(calculatePourPlan(tap, small, 10.01), null);
+  });
+});
+
+describe('scalePourPlan', () => {
+  const tap = createTap({ overpayment: { mode: 'cups', maxCups: 4 } });
+
+  it('multiplies the cups by the quantity asked for in the memo', () => {
+    assert.deepEqual(scalePourPlan(tap, { quantity: 2, cupSize: 300 }, 2), { quantity: 4, cupSize: 300 });
+  });
+
+  it('refuses an xN above maxCups', () => {
+    assert.equal(scalePourPlan(tap, { quantity: 1, cupSize: 300 }, 5), null);
+    assert.equal(scalePourPlan(tap, { quantity: 2, cupSize: 300 }, 3), null);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseClockTime, resolvePourTime } from '../utils/schedule.js';
+import { createTap } from './helpers/taps.js';
+
+// 21:50 in São Paulo, which has no daylight saving time
+const now = Date.parse('2026-06-11T00:50:00Z');
+const tap = createTap({ schedule: { delayMinutes: 0, timezone: 'America/Sao_Paulo', maxDelayMinutes: 240 } });
+
+describe('parseClockTime', () => {
+  it('parses HH:MM and refuses times that are not on the clock', () => {
+    assert.deepEqual(parseClockTime('9:05'), { hour: 9, minute: 5 });
+    assert.deepEqual(parseClockTime('23:59'), { hour: 23, minute: 59 });
+    assert.equal(parseClockTime('24:00'), null);
+    assert.equal(parseClockTime('21:60'), null);
+    assert.equal(parseClockTime('2145'), null);
+  });
+});
+
+describe('resolvePourTime', () => {
+  it('pours right away without a schedule', () => {
+    assert.deepEqual(resolvePourTime(tap, undefined, now), { scheduledAt: null });
+  });
+
+  it('delays the pour by the memo or the tap default, up to the maximum delay', () => {
+    const delayedTap = createTap({ schedule: { ...tap.schedule, delayMinutes: 10 } });
+
+    assert.deepEqual(resolvePourTime(tap, { type: 'delay', minutes: 45 }, now), {
+      scheduledAt: new Date('2026-06-11T01:35:00Z'),
+    });
+    assert.deepEqual(resolvePourTime(delayedTap, undefined, now), { scheduledAt: new Date('2026-06-11T01:00:00Z') });
+    assert.deepEqual(resolvePourTime(delayedTap, { type: 'delay', minutes: 0 }, now), { scheduledAt: null });
+    assert.ok('error' in resolvePourTime(tap, { type: 'delay', minutes: 241 }, now));
+  });
+
+  it('schedules a clock time later today in the tap time zone', () => {
+    assert.deepEqual(resolvePourTime(tap, { type: 'at', hour: 22, minute: 30 }, now), {
+      scheduledAt: new Date('2026-06-11T01:30:00Z'),
+    });
+  });
+
+  it('pours right away for a clock time that passed within the maximum delay', () => {
+    assert.deepEqual(resolvePourTime(tap, { type: 'at', hour: 21, minute: 45 }, now), { scheduledAt: null });
+    assert.deepEqual(resolvePourTime(tap, { type: 'at', hour: 18, minute: 0 }, now), { scheduledAt: null });
+  });
+
+  it('schedules a clock time after midnight for the next day', () => {
+    const lateEvening = Date.parse('2026-06-11T02:50:00Z');
+
+    assert.deepEqual(resolvePourTime(tap, { type: 'at', hour: 0, minute: 15 }, lateEvening), {
+      scheduledAt: new Date('2026-06-11T03:15:00Z'),
+    });
+  });
+
+  it('refuses a clock time too far from now either way', () => {
+    assert.ok('error' in resolvePourTime(tap, { type: 'at', hour: 12, minute: 0 }, now));
+  });
+
+  it('picks the nearer occurrence when both are within the maximum delay', () => {
+    const patientTap = createTap({ schedule: { ...tap.schedule, maxDelayMinutes: 1440 } });
+
+    assert.deepEqual(resolvePourTime(patientTap, { type: 'at', hour: 22, minute: 0 }, now), {
+      scheduledAt: new Date('2026-06-11T01:00:00Z'),
+    });
+    assert.deepEqual(resolvePourTime(patientTap, { type: 'at', hour: 21, minute: 0 }, now), { scheduledAt: null });
+  });
+
+  it('uses the tap pour time when the memo has none', () => {
+    const halfTimeTap = createTap({ schedule: { ...tap.schedule, pourAt: '22:45' } });
+
+    assert.deepEqual(resolvePourTime(halfTimeTap, undefined, now), { scheduledAt: new Date('2026-06-11T01:45:00Z') });
+  });
+
+  it('follows daylight saving time changes before the occurrence', () => {
+    const berlinTap = createTap({ schedule: { delayMinutes: 0, timezone: 'Europe/Berlin', maxDelayMinutes: 1440 } });
+    // 23:00 in Berlin the night clocks go forward to summer time
+    const beforeChange = Date.parse('2026-03-28T22:00:00Z');
+
+    assert.deepEqual(resolvePourTime(berlinTap, { type: 'at', hour: 8, minute: 0 }, beforeChange), {
+      scheduledAt: new Date('2026-03-29T06:00:00Z'),
+    });
+  });
+});
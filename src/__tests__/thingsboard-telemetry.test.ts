@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { setImmediate } from 'node:timers';
+import { ThingsBoardAuthService } from '../services/thingsboard/thingsboard-auth.service.js';
+import {
+  TelemetrySocket,
+  TelemetryStatusUpdate,
+  ThingsBoardTelemetryClient,
+} from '../services/thingsboard/thingsboard-telemetry.service.js';
+import { QueueStatus } from '../types/queue.js';
+
+// Local stand-in for the ThingsBoard telemetry WebSocket
+class FakeSocket implements TelemetrySocket {
+  public sent: string[] = [];
+  public closed = false;
+  public onopen: ((event: unknown) => void) | null = null;
+  public onmessage: ((event: { data: unknown }) => void) | null = null;
+  public onclose: ((event: unknown) => void) | null = null;
+  public onerror: ((event: unknown) => void) | null = null;
+  public readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  public send(data: string): void {
+    this.sent.push(data);
+  }
+
+  public close(): void {
+    this.closed = true;
+  }
+
+  public open(): void {
+    this.onopen?.({});
+  }
+
+  public receive(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  public drop(): void {
+    this.onclose?.({});
+  }
+}
+
+const fakeAuth = { getValidToken: async () => 'jwt-token' } as unknown as ThingsBoardAuthService;
+
+// Lets the client's token lookup resolve before the socket is used
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ThingsBoardTelemetryClient', () => {
+  let sockets: FakeSocket[];
+  let client: ThingsBoardTelemetryClient;
+  let updates: TelemetryStatusUpdate[];
+
+  beforeEach(async () => {
+    sockets = [];
+    updates = [];
+    client = new ThingsBoardTelemetryClient(
+      'https://thingsboard.example',
+      'user',
+      'password',
+      url => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket;
+      },
+      fakeAuth
+    );
+    client.onStatus(update => updates.push(update));
+    client.start([
+      { beerTapId: 'tap-1', deviceId: 'device-1' },
+      { beerTapId: 'tap-2', deviceId: 'device-2' },
+    ]);
+    await flush();
+  });
+
+  afterEach(() => {
+    client.stop();
+    mock.timers.reset();
+  });
+
+  it('connects with the token and subscribes the attributes and telemetry of every device', () => {
+    assert.equal(sockets.length, 1);
+    assert.equal(sockets[0].url, 'wss://thingsboard.example/api/ws/plugins/telemetry?token=jwt-token');
+    assert.equal(client.isConnected(), false);
+
+    sockets[0].open();
+
+    assert.equal(client.isConnected(), true);
+    const { attrSubCmds, tsSubCmds } = JSON.parse(sockets[0].sent[0]);
+    assert.deepEqual(
+      attrSubCmds.map((cmd: { entityId: string; cmdId: number }) => [cmd.entityId, cmd.cmdId]),
+      [
+        ['device-1', 1],
+        ['device-2', 2],
+      ]
+    );
+    assert.equal(attrSubCmds[0].keys, 'cupSize,active,mode,kegEmpty');
+    assert.equal(tsSubCmds[0].keys, 'flowFault,remainingVolume,kegLevel');
+    assert.equal(tsSubCmds[0].entityId, 'device-1');
+  });
+
+  it('pushes the status of a tap as its values change', () => {
+    sockets[0].open();
+
+    sockets[0].receive({ subscriptionId: 1, data: { cupSize: [[1000, '0']], active: [[1000, 'true']] } });
+    sockets[0].receive({ subscriptionId: 1, data: { cupSize: [[2000, '500']] } });
+    sockets[0].receive({ subscriptionId: 3, data: { remainingVolume: [[2500, '120']] } });
+
+    assert.deepEqual(
+      updates.map(({ beerTapId, status, remainingVolume }) => ({ beerTapId, status, remainingVolume })),
+      [
+        { beerTapId: 'tap-1', status: QueueStatus.READY, remainingVolume: undefined },
+        { beerTapId: 'tap-1', status: QueueStatus.BUSY, remainingVolume: 500 },
+        { beerTapId: 'tap-1', status: QueueStatus.BUSY, remainingVolume: 120 },
+      ]
+    );
+    assert.equal(updates[2].timestamp.getTime(), 2500);
+  });
+
+  it('reports nothing before the cupSize attribute and ignores failed subscriptions', () => {
+    sockets[0].open();
+
+    sockets[0].receive({ subscriptionId: 3, data: { kegLevel: [[1000, '0']] } });
+    sockets[0].receive({ subscriptionId: 2, errorCode: 2, errorMsg: 'Device not found' });
+    sockets[0].receive({ subscriptionId: 99, data: { cupSize: [[1000, '0']] } });
+
+    assert.equal(updates.length, 0);
+  });
+
+  it('reconnects with backoff and subscribes again after the connection drops', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    const connectionChanges: boolean[] = [];
+    client.onConnectionChange(connected => connectionChanges.push(connected));
+
+    sockets[0].open();
+    sockets[0].drop();
+    assert.equal(client.isConnected(), false);
+
+    mock.timers.tick(1000);
+    await flush();
+
+    assert.equal(sockets.length, 2);
+    sockets[1].open();
+    assert.equal(client.isConnected(), true);
+    assert.deepEqual(connectionChanges, [true, false, true]);
+
+    // Subscription IDs of the old connection no longer map to taps
+    sockets[1].receive({ subscriptionId: 1, data: { cupSize: [[1000, '0']] } });
+    sockets[1].receive({ subscriptionId: 5, data: { cupSize: [[1000, '0']] } });
+    assert.deepEqual(
+      updates.map(({ beerTapId }) => beerTapId),
+      ['tap-1']
+    );
+  });
+
+  it('closes the socket and stops reconnecting when stopped', async () => {
+    mock.timers.enable({ apis: ['setTimeout'] });
+    sockets[0].open();
+
+    client.stop();
+    sockets[0].drop();
+    mock.timers.tick(30000);
+    await flush();
+
+    assert.equal(sockets[0].closed, true);
+    assert.equal(sockets.length, 1);
+    assert.equal(client.isConnected(), false);
+  });
+});
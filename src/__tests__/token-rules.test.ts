@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Address } from 'viem';
+import type { Payment } from '../types/transaction.js';
+import { checkTokenRules } from '../utils/token-rules.js';
+
+const USDC_BASE: Address = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+
+const payment = {
+  chainId: 8453,
+  destinationChainId: 8453,
+  tokenOutSymbol: 'USDC',
+  tokenOutAddress: USDC_BASE,
+  tokenOutAmountGross: '2.50',
+} as Payment;
+
+describe('checkTokenRules', () => {
+  it('accepts a payment that satisfies every rule', () => {
+    const rules = {
+      allowedChains: [8453],
+      allowedTokens: [USDC_BASE.toLowerCase() as Address],
+      minTokenAmount: '2.5',
+      tokenDecimals: 6,
+      sameChainOnly: true,
+    };
+
+    assert.equal(checkTokenRules(rules, payment), null);
+  });
+
+  it('refuses bridged payments when the tap wants the same chain', () => {
+    const bridged = { ...payment, chainId: 1 };
+
+    assert.equal(
+      checkTokenRules({ tokenDecimals: 6, sameChainOnly: true }, bridged)?.reason,
+      'cross_chain_not_allowed'
+    );
+    assert.equal(checkTokenRules({ tokenDecimals: 6, sameChainOnly: false }, bridged), null);
+  });
+
+  it('checks the chain the payment settled on', () => {
+    const rules = { allowedChains: [10], tokenDecimals: 6, sameChainOnly: false };
+
+    assert.equal(checkTokenRules(rules, payment)?.reason, 'chain_not_allowed');
+  });
+
+  it('matches allowed tokens by address, not symbol', () => {
+    const rules = { allowedTokens: [USDC_BASE], tokenDecimals: 6, sameChainOnly: false };
+    const impostor = { ...payment, tokenOutAddress: '0x00000000000000000000000000000000000bad02' } as Payment;
+
+    assert.equal(checkTokenRules(rules, impostor)?.reason, 'token_not_allowed');
+  });
+
+  it('compares the gross amount in base units, ignoring digits beyond the token precision', () => {
+    const rules = { minTokenAmount: '2.5', tokenDecimals: 6, sameChainOnly: false };
+
+    assert.equal(
+      checkTokenRules(rules, { ...payment, tokenOutAmountGross: '2.4999999' })?.reason,
+      'token_amount_below_minimum'
+    );
+    assert.equal(checkTokenRules(rules, { ...payment, tokenOutAmountGross: '2.5000009' }), null);
+    assert.equal(checkTokenRules(rules, { ...payment, tokenOutAmountGross: '-3' })?.reason, 'token_amount_invalid');
+  });
+});
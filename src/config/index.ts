@@ -1,17 +1,152 @@
+import { hostname } from 'os';
 import { isAddress } from 'viem';
 import { z } from 'zod';
-import { RetryStrategy } from '../types/queue.js';
+import { queueConfigSchema } from '../schemas/queue.schemas.js';
+import { simulatorEnvSchema } from '../schemas/simulator.schemas.js';
+import { QueueConfig, QueuePriority, RetryStrategy } from '../types/queue.js';
 
 const countryCodeSchema = z.string().length(3, 'Country code must be ISO 3166-1 alpha-3 format (3 characters)');
 
+const signerSchema = z
+  .object({
+    address: z.string().refine(isAddress, { message: 'Signer address must be a valid address' }),
+    label: z.string().min(1),
+    validFrom: z.coerce.date().optional(),
+    validUntil: z.coerce.date().optional(),
+  })
+  .refine(signer => !signer.validFrom || !signer.validUntil || signer.validFrom < signer.validUntil, {
+    message: 'validFrom must be before validUntil',
+    path: ['validUntil'],
+  });
+
+const priceTierSchema = z.object({
+  amount: z.string().refine(amount => Number(amount) > 0, { message: 'Price tier amount must be a positive number' }),
+  cupSize: z.number().positive(),
+  memoSuffix: z.string().min(1).optional(),
+});
+
+const tokenRulesSchema = z.object({
+  // Chains the payment may have settled on (destinationChainId)
+  allowedChains: z.array(z.number().int().positive()).optional(),
+  // Token contracts the receiver may be paid in (tokenOutAddress)
+  allowedTokens: z
+    .array(z.string().refine(address => isAddress(address), { message: 'Allowed token must be a valid address' }))
+    .optional(),
+  // Minimum tokenOutAmountGross as a decimal string, compared at tokenDecimals precision
+  minTokenAmount: z
+    .string()
+    .regex(/^\d+(\.\d+)?$/, 'Minimum token amount must be a decimal string')
+    .optional(),
+  tokenDecimals: z.number().int().min(0).max(36).default(18),
+  // Reject payments bridged from another chain
+  sameChainOnly: z.boolean().default(false),
+});
+
+const priorityPolicySchema = z.object({
+  // How long high lane pours may overtake earlier normal pours (ms), also the most the normal lane is held up
+  highHeadStart: z.number().int().min(0).max(3600000).default(300000),
+  // How long low lane pours yield to later normal pours (ms)
+  lowDelay: z.number().int().min(0).max(3600000).default(300000),
+  // Sender addresses or ENS names served in another lane, e.g. staff and comp wallets or VIPs
+  wallets: z.record(z.string().min(1), z.nativeEnum(QueuePriority)).default({}),
+});
+
+// Per-tap overrides of the QUEUE_* defaults, unset fields fall back to the environment
+const tapQueueConfigSchema = queueConfigSchema
+  .pick({
+    maxAttempts: true,
+    retryStrategy: true,
+    baseDelay: true,
+    maxDelay: true,
+    concurrency: true,
+    leaseDuration: true,
+    deadLetterQueueEnabled: true,
+  })
+  .partial();
+
+const scheduleSchema = z.object({
+  // Delay every pour by this long after payment, unless the memo asks for another time
+  delayMinutes: z.number().int().min(0).default(0),
+  // Hold every pour until this wall clock time (HH:MM in timezone), e.g. half-time
+  pourAt: z
+    .string()
+    .regex(/^([01]?\d|2[0-3]):[0-5]\d$/, 'pourAt must be a HH:MM time')
+    .optional(),
+  timezone: z
+    .string()
+    .default('UTC')
+    .refine(
+      timeZone => {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone });
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Schedule timezone must be an IANA time zone' }
+    ),
+  // The furthest ahead a pour may be scheduled, by the memo or the tap
+  maxDelayMinutes: z.number().int().min(1).max(1440).default(240),
+});
+
+const blynkPinSchema = z.string().regex(/^V\d+$/, "Blynk pin must be a virtual pin such as 'V1'");
+
+// The device behind a tap, see src/services/tap-driver
+const tapDriverSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('thingsboard') }),
+  z.object({
+    type: z.literal('blynk'),
+    token: z.string().min(1, 'Blynk device token cannot be empty'),
+    pin: blynkPinSchema,
+    pinValue: z.string().optional(),
+    statusPin: blynkPinSchema.optional(),
+    server: z.string().url().default('https://blynk.cloud'),
+    timeout: z.number().min(1000).max(60000).default(10000),
+  }),
+  z.object({
+    type: z.literal('simulator'),
+    pourRate: z.number().positive().default(50),
+    kegVolume: z.number().positive().optional(),
+    failureRate: z.number().min(0).max(1).default(0),
+  }),
+]);
+
 const beerTapSchema = z.object({
   id: z.string().optional(),
   transactionReceiverEns: z.string(),
   transactionMemo: z.string(),
   transactionCurrency: z.string(),
-  transactionAmount: z.string(),
-  thingsBoardDeviceId: z.string().min(1, 'ThingsBoard device ID cannot be empty'),
+  // Invoice currencies accepted in addition to transactionCurrency, converted with the FX rate provider
+  acceptedCurrencies: z.array(z.string().min(1)).default([]),
+  // How far below the price a converted payment may fall and still be accepted
+  fxTolerancePercent: z.number().min(0).max(20).default(0),
+  tokenRules: tokenRulesSchema.optional(),
+  transactionAmount: z.string().optional(),
+  prices: z.array(priceTierSchema).min(1, 'Price list must contain at least one tier').optional(),
+  driver: tapDriverSchema.default({ type: 'thingsboard' }),
+  // Required by the ThingsBoard driver
+  thingsBoardDeviceId: z.string().min(1, 'ThingsBoard device ID cannot be empty').optional(),
   thingsBoardCupSize: z.number().positive().default(500),
+  overpayment: z
+    .object({
+      // cups: pour floor(amount / tier price) cups, proportional: scale the volume, reject: refuse the payment
+      mode: z.enum(['cups', 'proportional', 'reject']).default('cups'),
+      // One cup per payment unless the tap opts into more, like before overpayment handling existed
+      maxCups: z.number().int().min(1).max(20).default(1),
+      // Required for proportional, which scales the volume up to this cap
+      maxVolume: z.number().positive().optional(),
+    })
+    .refine(overpayment => overpayment.mode !== 'proportional' || overpayment.maxVolume !== undefined, {
+      message: 'Proportional overpayment requires maxVolume',
+      path: ['maxVolume'],
+    })
+    .default({}),
+  priority: priorityPolicySchema.default({}),
+  schedule: scheduleSchema.default({}),
+  queue: tapQueueConfigSchema.default({}),
+  // Taps that take over this tap's pours when its keg runs empty, tried in order
+  fallbackTapIds: z.array(z.string().min(1)).default([]),
   thingsBoardServerUrl: z
     .string()
     .url('ThingsBoard server URL must be a valid URL')
@@ -66,11 +201,45 @@ const beerTapSchema = z.object({
     ),
 });
 
+const beerTapConfigSchema = beerTapSchema
+  .refine(tap => tap.transactionAmount !== undefined || tap.prices !== undefined, {
+    message: 'Either transactionAmount or prices must be provided',
+    path: ['prices'],
+  })
+  .refine(tap => tap.driver.type !== 'thingsboard' || tap.thingsBoardDeviceId !== undefined, {
+    message: 'thingsBoardDeviceId is required for taps using the ThingsBoard driver',
+    path: ['thingsBoardDeviceId'],
+  })
+  .transform(tap => {
+    // A single transactionAmount is shorthand for a one-tier price list using thingsBoardCupSize
+    const prices = [...(tap.prices ?? [{ amount: tap.transactionAmount!, cupSize: tap.thingsBoardCupSize }])].sort(
+      (a, b) => Number(a.amount) - Number(b.amount)
+    );
+
+    return {
+      ...tap,
+      prices,
+      transactionAmount: tap.transactionAmount ?? prices[0].amount,
+    };
+  });
+
 const envSchema = z
   .object({
     NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
     PORT: z.string().transform(Number).optional().default('3000'),
+    // Identifies this process as a lock owner, defaults to the Fly.io machine id or hostname and pid
+    INSTANCE_ID: z.string().min(1).optional(),
+    FLY_MACHINE_ID: z.string().min(1).optional(),
     YODL_INDEXER_URL: z.string().url().optional().default('https://tx.yodl.me/api'),
+    YODL_INDEXER_TIMEOUT: z.string().transform(Number).pipe(z.number().min(500).max(30000)).default('5000'),
+    YODL_INDEXER_MAX_RETRIES: z.string().transform(Number).pipe(z.number().min(0).max(5)).default('2'),
+    YODL_INDEXER_RETRY_BASE_DELAY: z.string().transform(Number).pipe(z.number().min(50).max(10000)).default('300'),
+    // How long a 404 from the indexer is treated as "not indexed yet" after the webhook first arrives (ms)
+    YODL_INDEXER_PENDING_GRACE: z.string().transform(Number).pipe(z.number().min(0).max(3600000)).default('180000'),
+    YODL_INDEXER_CACHE_TTL: z.string().transform(Number).pipe(z.number().min(0).max(604800)).default('3600'),
+    YODL_INDEXER_BREAKER_THRESHOLD: z.string().transform(Number).pipe(z.number().min(1).max(100)).default('5'),
+    YODL_INDEXER_BREAKER_COOLDOWN: z.string().transform(Number).pipe(z.number().min(1000).max(600000)).default('30000'),
+    PENDING_VERIFICATION_INTERVAL: z.string().transform(Number).pipe(z.number().min(1000).max(60000)).default('5000'),
     YODL_ADDRESS: z
       .string()
       .optional()
@@ -81,6 +250,71 @@ const envSchema = z
         }
         return address;
       }),
+    // JSON array of trusted webhook signers, e.g. [{"address":"0x...","label":"production","validUntil":"2025-01-01"}]
+    // Defaults to YODL_ADDRESS as the only signer
+    YODL_SIGNERS: z
+      .string()
+      .transform(str => {
+        try {
+          return JSON.parse(str);
+        } catch {
+          throw new Error('YODL_SIGNERS must be a valid JSON array');
+        }
+      })
+      .pipe(z.array(signerSchema).min(1))
+      .optional(),
+
+    // Payment source configuration
+    PAYMENT_SOURCE: z.enum(['indexer', 'chain', 'indexer_with_fallback']).default('indexer'),
+    // JSON object mapping chain ids to RPC URLs, e.g. {"1":"https://eth.llamarpc.com","8453":"https://mainnet.base.org"}
+    CHAIN_RPC_URLS: z
+      .string()
+      .transform(str => {
+        try {
+          return JSON.parse(str);
+        } catch {
+          throw new Error('CHAIN_RPC_URLS must be a valid JSON object');
+        }
+      })
+      .pipe(z.record(z.string().regex(/^\d+$/, 'Chain ids must be numeric'), z.string().url()))
+      .default('{}'),
+    // JSON object mapping chain ids to Yodl router addresses, payment events from other contracts are ignored
+    CHAIN_YODL_ROUTERS: z
+      .string()
+      .transform(str => {
+        try {
+          return JSON.parse(str);
+        } catch {
+          throw new Error('CHAIN_YODL_ROUTERS must be a valid JSON object');
+        }
+      })
+      .pipe(
+        z.record(
+          z.string().regex(/^\d+$/, 'Chain ids must be numeric'),
+          z.array(z.string().refine(isAddress, 'Router must be a valid address'))
+        )
+      )
+      .default('{}'),
+    // JSON object mapping chain ids to the tokens accepted when reading payments from chain, by contract address,
+    // and the invoice currency each one represents, e.g. {"8453":{"0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913":"USD"}}
+    CHAIN_TOKEN_CURRENCIES: z
+      .string()
+      .transform(str => {
+        try {
+          return JSON.parse(str);
+        } catch {
+          throw new Error('CHAIN_TOKEN_CURRENCIES must be a valid JSON object');
+        }
+      })
+      .pipe(
+        z.record(
+          z.string().regex(/^\d+$/, 'Chain ids must be numeric'),
+          z.record(z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Token must be a valid address'), z.string().min(1))
+        )
+      )
+      .default('{}'),
+    CHAIN_RPC_TIMEOUT: z.string().transform(Number).pipe(z.number().min(500).max(60000)).default('10000'),
+
     BEER_TAPS: z
       .string()
       .transform(str => {
@@ -90,9 +324,26 @@ const envSchema = z
           throw new Error('BEER_TAPS must be a valid JSON array');
         }
       })
-      .pipe(z.array(beerTapSchema))
+      .pipe(z.array(beerTapConfigSchema))
       .default('[]'),
 
+    // FX rate configuration
+    FX_PROVIDER: z.enum(['static', 'http']).default('static'),
+    FX_STATIC_RATES: z
+      .string()
+      .transform(str => {
+        try {
+          return JSON.parse(str);
+        } catch {
+          throw new Error('FX_STATIC_RATES must be a valid JSON object');
+        }
+      })
+      .pipe(z.record(z.number().positive()))
+      .default('{}'),
+    FX_HTTP_URL: z.string().url().default('https://api.frankfurter.app/latest'),
+    FX_HTTP_TIMEOUT: z.string().transform(Number).pipe(z.number().min(500).max(30000)).default('5000'),
+    FX_CACHE_TTL: z.string().transform(Number).pipe(z.number().min(10).max(86400)).default('300'),
+
     // Redis configuration
     REDIS_URL: z.string().url(),
 
@@ -129,6 +380,13 @@ const envSchema = z
 
     // ThingsBoard RPC timeout configuration for global devices
     THINGSBOARD_RPC_TIMEOUT: z.string().transform(Number).pipe(z.number().min(5000).max(60000)).default('15000'),
+    // Receive tap status over the telemetry WebSocket instead of polling, polling stays the fallback
+    THINGSBOARD_TELEMETRY_WS: z
+      .string()
+      .transform(val => val === 'true')
+      .default('true'),
+    // Runs the ThingsBoard simulator in process on this port, point THINGSBOARD_SERVER_URL at it to use it
+    ...simulatorEnvSchema.shape,
     // Self.xyz configuration
     SELF_APP_NAME: z.string().default('TapThat'),
     SELF_APP_SCOPE: z.string().default('tapthat-verification'),
@@ -166,6 +424,9 @@ const envSchema = z
       )
       .default('1800'),
 
+    // Shared secret for the admin API (x-admin-key header), the admin API is disabled when unset
+    ADMIN_API_KEY: z.string().min(32, 'ADMIN_API_KEY must be at least 32 characters').optional(),
+
     // Development configuration
     DEV_DISABLE_AUTH: z
       .string()
@@ -192,10 +453,51 @@ const envSchema = z
       .string()
       .transform(val => val === 'true')
       .default('true'),
+    // How long a processing item stays reserved without a heartbeat before it is requeued (ms)
+    QUEUE_LEASE_DURATION: z.string().transform(Number).pipe(z.number().min(5000).max(600000)).default('60000'),
+    // How long a per-tap consumer lock survives without renewal before another instance takes over (ms)
+    TAP_LOCK_TTL: z.string().transform(Number).pipe(z.number().min(3000).max(120000)).default('15000'),
+    QUEUE_REAPER_INTERVAL: z.string().transform(Number).pipe(z.number().min(1000).max(300000)).default('15000'),
+    // Idempotency ledger retention in seconds (default 30 days)
+    IDEMPOTENCY_TTL: z.string().transform(Number).pipe(z.number().min(3600)).default('2592000'),
+    // Webhooks whose signed timestamp (or payment block timestamp) is older than this are refused, in seconds
+    WEBHOOK_MAX_AGE: z.string().transform(Number).pipe(z.number().min(30).max(86400)).default('900'),
+    // Tolerated clock difference for signed timestamps in the future, in seconds
+    WEBHOOK_CLOCK_SKEW: z.string().transform(Number).pipe(z.number().min(0).max(600)).default('60'),
     STATUS_POLLING_INTERVAL: z.string().transform(Number).pipe(z.number().min(1000).max(60000)).default('2000'),
   })
+  .refine(data => data.PAYMENT_SOURCE === 'indexer' || Object.keys(data.CHAIN_RPC_URLS).length > 0, {
+    message: 'Reading payments from chain requires at least one RPC URL in CHAIN_RPC_URLS',
+    path: ['CHAIN_RPC_URLS'],
+  })
+  // Receiver ENS names, which taps are matched on, are resolved on mainnet
+  .refine(data => data.PAYMENT_SOURCE === 'indexer' || data.CHAIN_RPC_URLS['1'] !== undefined, {
+    message: 'Reading payments from chain requires a mainnet (chain 1) RPC URL in CHAIN_RPC_URLS to resolve ENS names',
+    path: ['CHAIN_RPC_URLS'],
+  })
+  .refine(
+    data =>
+      data.PAYMENT_SOURCE === 'indexer' || Object.values(data.CHAIN_YODL_ROUTERS).some(routers => routers.length > 0),
+    {
+      message: 'Reading payments from chain requires the Yodl router addresses in CHAIN_YODL_ROUTERS',
+      path: ['CHAIN_YODL_ROUTERS'],
+    }
+  )
+  .refine(
+    data =>
+      data.PAYMENT_SOURCE === 'indexer' ||
+      Object.values(data.CHAIN_TOKEN_CURRENCIES).some(tokens => Object.keys(tokens).length > 0),
+    {
+      message: 'Reading payments from chain requires the accepted tokens in CHAIN_TOKEN_CURRENCIES',
+      path: ['CHAIN_TOKEN_CURRENCIES'],
+    }
+  )
   .refine(
     data => {
+      // Only taps on ThingsBoard need the account, Blynk and simulated taps run without it
+      if (!data.BEER_TAPS.some(tap => tap.driver.type === 'thingsboard')) {
+        return !data.THINGSBOARD_USERNAME === !data.THINGSBOARD_PASSWORD;
+      }
       return !(!data.THINGSBOARD_USERNAME || !data.THINGSBOARD_PASSWORD);
     },
     {
@@ -225,11 +527,37 @@ export const config = {
   server: {
     port: env.PORT,
   },
+  instanceId: env.INSTANCE_ID ?? env.FLY_MACHINE_ID ?? `${hostname()}-${process.pid}`,
   yodl: {
     indexerUrl: env.YODL_INDEXER_URL,
+    indexer: {
+      timeout: env.YODL_INDEXER_TIMEOUT,
+      maxRetries: env.YODL_INDEXER_MAX_RETRIES,
+      retryBaseDelay: env.YODL_INDEXER_RETRY_BASE_DELAY,
+      pendingGrace: env.YODL_INDEXER_PENDING_GRACE,
+      cacheTtl: env.YODL_INDEXER_CACHE_TTL,
+      breakerThreshold: env.YODL_INDEXER_BREAKER_THRESHOLD,
+      breakerCooldown: env.YODL_INDEXER_BREAKER_COOLDOWN,
+    },
+    pendingVerificationInterval: env.PENDING_VERIFICATION_INTERVAL,
     address: env.YODL_ADDRESS,
+    signers: env.YODL_SIGNERS ?? [signerSchema.parse({ address: env.YODL_ADDRESS, label: 'default' })],
+  },
+  paymentSource: {
+    mode: env.PAYMENT_SOURCE,
+    rpcUrls: env.CHAIN_RPC_URLS,
+    routers: env.CHAIN_YODL_ROUTERS,
+    tokenCurrencies: env.CHAIN_TOKEN_CURRENCIES,
+    rpcTimeout: env.CHAIN_RPC_TIMEOUT,
   },
   beerTaps: env.BEER_TAPS,
+  fx: {
+    provider: env.FX_PROVIDER,
+    staticRates: env.FX_STATIC_RATES,
+    httpUrl: env.FX_HTTP_URL,
+    httpTimeout: env.FX_HTTP_TIMEOUT,
+    cacheTtl: env.FX_CACHE_TTL,
+  },
   redis: {
     url: env.REDIS_URL,
   },
@@ -238,6 +566,13 @@ export const config = {
     username: env.THINGSBOARD_USERNAME,
     password: env.THINGSBOARD_PASSWORD,
     rpcTimeout: env.THINGSBOARD_RPC_TIMEOUT,
+    telemetryWs: env.THINGSBOARD_TELEMETRY_WS,
+    simulator: {
+      port: env.THINGSBOARD_SIMULATOR_PORT,
+      pourRate: env.THINGSBOARD_SIMULATOR_POUR_RATE,
+      kegVolume: env.THINGSBOARD_SIMULATOR_KEG_VOLUME,
+      tokenTtl: env.THINGSBOARD_SIMULATOR_TOKEN_TTL,
+    },
   },
   self: {
     appName: env.SELF_APP_NAME,
@@ -248,6 +583,9 @@ export const config = {
     defaultExcludedCountries: env.SELF_DEFAULT_EXCLUDED_COUNTRIES,
     sessionTimeout: env.SELF_SESSION_TIMEOUT,
   },
+  admin: {
+    apiKey: env.ADMIN_API_KEY,
+  },
   dev: {
     disableAuth: env.DEV_DISABLE_AUTH,
     disableStatusPolling: env.DEV_DISABLE_STATUS_POLLING,
@@ -260,12 +598,58 @@ export const config = {
     pollingInterval: env.QUEUE_POLLING_INTERVAL,
     retryStrategy: env.QUEUE_RETRY_STRATEGY as RetryStrategy,
     deadLetterEnabled: env.QUEUE_DEAD_LETTER_ENABLED,
+    leaseDuration: env.QUEUE_LEASE_DURATION,
+    reaperInterval: env.QUEUE_REAPER_INTERVAL,
+    tapLockTtl: env.TAP_LOCK_TTL,
+  },
+  idempotency: {
+    ttl: env.IDEMPOTENCY_TTL,
+  },
+  webhook: {
+    maxAge: env.WEBHOOK_MAX_AGE,
+    clockSkew: env.WEBHOOK_CLOCK_SKEW,
   },
   statusPolling: {
     interval: env.STATUS_POLLING_INTERVAL,
   },
 } as const;
 
+/**
+ * Resolves the queue identifier of a configured beer tap, falling back to its position in BEER_TAPS
+ */
+export function getBeerTapId(tap: (typeof config.beerTaps)[0]): string {
+  return tap.id || `beer-tap-${config.beerTaps.indexOf(tap)}`;
+}
+
+/**
+ * Resolves the queue configuration a beer tap runs with: the QUEUE_* environment defaults,
+ * overridden by the tap's own queue settings, plus the lane head starts from its priority policy
+ */
+export function getBeerTapQueueConfig(tap: (typeof config.beerTaps)[0]): QueueConfig {
+  const layered = queueConfigSchema.parse({
+    maxAttempts: config.queue.maxAttempts,
+    retryStrategy: config.queue.retryStrategy,
+    baseDelay: config.queue.baseDelay,
+    maxDelay: config.queue.maxDelay,
+    concurrency: config.queue.concurrency,
+    statusPollingInterval: config.statusPolling.interval,
+    deadLetterQueueEnabled: config.queue.deadLetterEnabled,
+    leaseDuration: config.queue.leaseDuration,
+    reaperInterval: config.queue.reaperInterval,
+    pollingInterval: config.queue.pollingInterval,
+    ...tap.queue,
+  });
+
+  return {
+    ...layered,
+    priorityHeadStarts: {
+      [QueuePriority.HIGH]: tap.priority.highHeadStart,
+      [QueuePriority.NORMAL]: 0,
+      [QueuePriority.LOW]: -tap.priority.lowDelay,
+    },
+  };
+}
+
 export function getBeerTapsByLocation(location: string) {
   return config.beerTaps.filter(tap => tap.location.toLowerCase().includes(location.toLowerCase()));
 }
@@ -0,0 +1,46 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Middleware } from 'express-zod-api';
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { config } from '../config/index.js';
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest();
+
+/**
+ * Authentication middleware for operator endpoints
+ *
+ * @description
+ * Requires the x-admin-key header to match ADMIN_API_KEY. The optional x-admin-actor header
+ * names the operator, it is passed on to later handlers so admin actions can be audited.
+ * The admin API is switched off entirely while ADMIN_API_KEY is unset.
+ *
+ * @throws {HttpError} - 401 if the admin key is missing or wrong
+ * @throws {HttpError} - 403 if the admin API is disabled
+ *
+ * @returns {Promise<{ actor: string }>} The acting operator, "admin" when not named
+ */
+const adminAuthMiddleware = new Middleware({
+  handler: async ({ request, logger }): Promise<{ actor: string }> => {
+    if (!config.admin.apiKey) {
+      throw createHttpError(StatusCodes.FORBIDDEN, 'Admin API disabled');
+    }
+
+    const key = request.headers['x-admin-key'];
+
+    // Compare digests so neither the key's content nor its length leaks through timing
+    if (typeof key !== 'string' || !timingSafeEqual(hashKey(key), hashKey(config.admin.apiKey))) {
+      logger.error('Admin authentication failed', { url: request.url });
+      throw createHttpError(StatusCodes.UNAUTHORIZED, 'Invalid admin key');
+    }
+
+    const actorHeader = request.headers['x-admin-actor'];
+    const actor = typeof actorHeader === 'string' && actorHeader.trim() ? actorHeader.trim() : 'admin';
+
+    return { actor };
+  },
+  security: {
+    and: [{ type: 'header', name: 'x-admin-key' }],
+  },
+});
+
+export default adminAuthMiddleware;
@@ -1,8 +1,10 @@
 import { Middleware } from 'express-zod-api';
 import createHttpError from 'http-errors';
 import { StatusCodes } from 'http-status-codes';
-import { isHex, verifyMessage } from 'viem';
+import { isHex } from 'viem';
 import { config } from '../config/index.js';
+import { ReplayProtectionService } from '../services/replay-protection.service.js';
+import { findMatchingSigner, WebhookSigner } from '../utils/signers.js';
 
 /**
  * Authentication middleware that verifies requests are signed by Yodl
@@ -10,21 +12,30 @@ import { config } from '../config/index.js';
  * @description
  * This middleware validates that incoming requests are authentic by verifying
  * a signature provided in the x-yodl-signature header against the request body.
- * The signature must be created by the Yodl address specified in YODL_ADDRESS env variable.
+ * The signature must be created by one of the signers in YODL_SIGNERS (or YODL_ADDRESS) that is
+ * active at the time of the request. The label of the matching signer is passed on to later handlers.
+ *
+ * When an x-yodl-timestamp header is sent, the signature covers `<timestamp>.<body>` and the
+ * timestamp must be within WEBHOOK_MAX_AGE. Without it, freshness is checked against the
+ * payment's block timestamp once the transaction is fetched. Each signature is accepted once.
  *
  * @throws {Error} "Invalid signature" - If the signature header is missing, malformed, or invalid
  * @throws {Error} "Signature verification failed" - If the signature verification process fails
+ * @throws {HttpError} - 400 if the signed timestamp is malformed, too old or in the future
+ * @throws {HttpError} - 409 if the same signed payload was already delivered
  *
- * @returns {Promise<{}>} Empty object if verification succeeds
+ * @returns {Promise<{ signedAt?: Date; signer?: string }>} The signed timestamp, if one was sent, and the matching signer's label
  */
 const authMiddleware = new Middleware({
-  handler: async ({ request, logger }) => {
+  handler: async ({ request, response, logger }): Promise<{ signedAt?: Date; signer?: string }> => {
     // Skip authentication in development mode if disabled
     if (config.dev.disableAuth) {
       logger.info('Authentication disabled for development');
       return {};
     }
 
+    const replayProtection = ReplayProtectionService.getInstance();
+
     const signature = request.headers['x-yodl-signature'];
 
     if (!isHex(signature)) {
@@ -32,26 +43,59 @@ const authMiddleware = new Middleware({
       throw createHttpError(StatusCodes.BAD_REQUEST);
     }
 
-    const message = typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
+    const body = typeof request.body === 'string' ? request.body : JSON.stringify(request.body);
+    const timestampHeader = request.headers['x-yodl-timestamp'];
+    const timestamp = typeof timestampHeader === 'string' ? timestampHeader : undefined;
+    const message = timestamp !== undefined ? `${timestamp}.${body}` : body;
+
+    let signer: WebhookSigner | null;
 
     try {
       logger.info('Verifying signature', { signature });
-      const isValid = await verifyMessage({
-        message,
-        signature,
-        address: config.yodl.address,
-      });
+      signer = await findMatchingSigner(message, signature);
 
-      if (!isValid) {
+      if (!signer) {
         logger.error('Signature verification failed', { signature });
         throw createHttpError(StatusCodes.BAD_REQUEST);
       }
 
-      return {};
+      logger.info('Signature verified', { signature, signer: signer.label, signerAddress: signer.address });
     } catch (error) {
       logger.error('Signature verification failed', { error });
       throw createHttpError(StatusCodes.BAD_REQUEST);
     }
+
+    let signedAt: Date | undefined;
+
+    if (timestamp !== undefined) {
+      const parsed = replayProtection.parseTimestamp(timestamp);
+      const freshness = replayProtection.checkFreshness(parsed);
+
+      if (!freshness.fresh) {
+        logger.error('Webhook timestamp rejected', { signature, timestamp, ...freshness });
+        await replayProtection.recordRejected(freshness.reason);
+        throw createHttpError(StatusCodes.BAD_REQUEST, `Webhook timestamp rejected: ${freshness.reason}`);
+      }
+
+      signedAt = parsed ?? undefined;
+    }
+
+    if (!(await replayProtection.markSignatureSeen(signature))) {
+      logger.error('Webhook replay rejected', { signature, timestamp });
+      await replayProtection.recordRejected('replay');
+      throw createHttpError(StatusCodes.CONFLICT, 'Webhook already received');
+    }
+
+    // Failures on our side should not burn the signature, so the sender can retry the delivery
+    response.on('finish', () => {
+      if (response.statusCode >= StatusCodes.INTERNAL_SERVER_ERROR) {
+        replayProtection.forgetSignature(signature).catch(error => {
+          logger.error('Failed to release webhook signature after server error', { signature, error });
+        });
+      }
+    });
+
+    return { signedAt, signer: signer.label };
   },
   security: {
     and: [{ type: 'header', name: 'x-yodl-signature' }],
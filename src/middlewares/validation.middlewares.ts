@@ -3,124 +3,86 @@ import createHttpError from 'http-errors';
 import { StatusCodes } from 'http-status-codes';
 import { config } from '../config/index.js';
 import { txInputSchema } from '../schemas/tx.schemas.js';
-import { fetchTransaction } from '../services/transaction.service.js';
+import { validatePayment, ValidatedPayment } from '../services/payment-validation.service.js';
+import { getPaymentSource } from '../services/payment-source/payment-source.service.js';
+import { PrometheusService } from '../services/prometheus.service.js';
+import { ReplayProtectionService } from '../services/replay-protection.service.js';
+
+type TxValidationResult = ({ pendingVerification: false } & ValidatedPayment) | { pendingVerification: true };
 
 /**
  * Middleware for validating transaction inputs and determining beer amounts.
  *
  * This middleware:
  * 1. Validates the provided transaction hash
- * 2. Fetches transaction details
- * 3. Verifies the transaction memo contains the required identifier
- * 4. Checks that currency and receiver information match configuration
- * 5. Determines the appropriate beer amount based on the invoice amount
+ * 2. Fetches transaction details from the configured payment source (YODL indexer and/or chain)
+ * 3. Reports the payment as pending verification when it is not indexed or mined yet
+ * 4. Refuses payments older than WEBHOOK_MAX_AGE when the webhook carried no signed timestamp
+ * 5. Otherwise validates the payment against the beer tap configuration, see validatePayment
  *
- * @returns {Object} - Contains beerAmount (invoice amount) and beerValue (quantity of beer)
- * @throws {HttpError} - 400 if memo is missing
- * @throws {HttpError} - 404 if memo doesn't contain identifier or currency doesn't match
- * @throws {HttpError} - 404 if receiver ENS name doesn't match configuration
- * @throws {HttpError} - 402 if invoice amount doesn't match any valid beer amount
+ * @returns {Object} - Contains the matched tap, the parsed memo, the transaction, the pour plan and the currency conversion if any,
+ *                     or only `pendingVerification: true` when the indexer has not seen the payment yet
+ * @throws {HttpError} - 404 if the payment is still not indexed after the grace window, or not found on chain
+ * @throws {HttpError} - 400 if the payment's block timestamp is outside the freshness window
+ * @throws {HttpError} - 502 or 503 if the payment source is failing or the indexer circuit breaker is open
+ * @throws {HttpError} - 400, 402, 403, 404, 422 or 503 if the payment fails validation, see validatePayment
  */
 const txValidationMiddleware = new Middleware({
-  handler: async ({ input: { txHash }, options, logger }) => {
+  handler: async ({ input: { txHash, chainId }, options, logger }): Promise<TxValidationResult> => {
     const middlewareStartTime = Date.now();
-    const { requestId, startTime } = options || {};
+    const { requestId, startTime, signedAt } = options || {};
     const requestStartTime = typeof startTime === 'number' ? startTime : middlewareStartTime;
-    
+
     logger.info('Starting transaction validation middleware', {
       requestId,
       txHash,
       middlewareStartTime: middlewareStartTime - requestStartTime,
     });
 
-    const transaction = await fetchTransaction(txHash, logger);
-
-    const { memo, invoiceCurrency, invoiceAmount, receiverEnsPrimaryName } = transaction;
-
-    logger.info('Transaction fetched successfully', {
-      requestId,
-      txHash,
-      senderAddress: transaction.senderAddress,
-      receiverAddress: transaction.receiverAddress,
-      receiverEnsPrimaryName,
-      invoiceAmount,
-      invoiceCurrency,
-      memo,
-      availableTaps: config.beerTaps.map(tap => ({
-        id: tap.id || 'unnamed',
-        transactionMemo: tap.transactionMemo,
-        transactionReceiverEns: tap.transactionReceiverEns,
-        transactionCurrency: tap.transactionCurrency,
-        transactionAmount: tap.transactionAmount,
-      })),
-    });
-
-    const validMethod = config.beerTaps.find(tap => memo.includes(tap.transactionMemo));
+    const lookup = await getPaymentSource().lookupPayment(txHash, logger, chainId);
 
-    if (!validMethod) {
-      logger.error('No matching beer tap method found', {
+    if (lookup.status === 'pending') {
+      logger.info('Transaction not available yet, deferring validation', {
         requestId,
         txHash,
-        memo,
-        availableMemos: config.beerTaps.map(tap => tap.transactionMemo),
+        firstSeenAt: lookup.firstSeenAt,
       });
-      throw createHttpError(StatusCodes.BAD_REQUEST);
+      return { pendingVerification: true };
     }
 
-    logger.info('Found matching beer tap method', {
+    logger.info('Transaction fetched successfully', {
       requestId,
       txHash,
-      tapId: validMethod.id || 'unnamed',
-      transactionMemo: validMethod.transactionMemo,
+      source: lookup.source,
+      cached: lookup.cached,
     });
 
-    if (invoiceCurrency !== validMethod.transactionCurrency) {
-      logger.error('Invoice currency mismatch', {
-        requestId,
-        txHash,
-        invoiceCurrency,
-        expectedCurrency: validMethod.transactionCurrency,
-        tapId: validMethod.id || 'unnamed',
-      });
-      throw createHttpError(StatusCodes.FORBIDDEN);
-    }
+    const replayProtection = ReplayProtectionService.getInstance();
 
-    if (receiverEnsPrimaryName !== validMethod.transactionReceiverEns) {
-      logger.error('Receiver ENS name mismatch', {
-        requestId,
-        txHash,
-        receiverEnsPrimaryName,
-        expectedReceiverEns: validMethod.transactionReceiverEns,
-        tapId: validMethod.id || 'unnamed',
-      });
-      throw createHttpError(StatusCodes.NOT_FOUND);
-    }
+    // Signed timestamps are checked by authMiddleware, otherwise the payment itself has to be recent
+    if (!signedAt && !config.dev.disableAuth) {
+      const freshness = replayProtection.checkFreshness(new Date(lookup.payment.blockTimestamp));
 
-    if (Number(invoiceAmount) < Number(validMethod.transactionAmount)) {
-      logger.error('Invoice amount below required minimum', {
-        requestId,
-        txHash,
-        invoiceAmount,
-        requiredAmount: validMethod.transactionAmount,
-        shortfall: Number(validMethod.transactionAmount) - Number(invoiceAmount),
-        tapId: validMethod.id || 'unnamed',
-      });
-      throw createHttpError(StatusCodes.PAYMENT_REQUIRED);
+      if (!freshness.fresh) {
+        logger.error('Transaction outside freshness window', {
+          requestId,
+          txHash,
+          blockTimestamp: lookup.payment.blockTimestamp,
+          ...freshness,
+        });
+        await replayProtection.recordRejected(freshness.reason);
+        PrometheusService.getInstance().recordValidationFailure(freshness.reason);
+        throw createHttpError(StatusCodes.BAD_REQUEST, `Transaction rejected: ${freshness.reason}`);
+      }
     }
 
-    const validationDuration = Date.now() - middlewareStartTime;
-    
-    logger.info('Transaction validation completed successfully', {
-      requestId,
-      txHash,
-      tapId: validMethod.id || 'unnamed',
-      validationDuration,
-    });
+    const validated = await validatePayment(
+      lookup.payment,
+      logger,
+      typeof requestId === 'string' ? requestId : undefined
+    );
 
-    return {
-      validMethod,
-      transaction,
-    };
+    return { pendingVerification: false, ...validated };
   },
   input: txInputSchema,
   security: {
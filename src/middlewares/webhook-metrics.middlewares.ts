@@ -0,0 +1,38 @@
+import { Middleware } from 'express-zod-api';
+import { StatusCodes } from 'http-status-codes';
+import { PrometheusService, WebhookOutcome } from '../services/prometheus.service.js';
+
+/**
+ * Counts payment webhook requests by outcome and HTTP status once the response is sent
+ *
+ * @description
+ * Runs first so requests rejected by later middlewares are counted too. The handler names the
+ * outcome of accepted requests through recordWebhookOutcome, failed ones are counted as rejected
+ * (4xx) or error (5xx).
+ *
+ * @returns {Object} - recordWebhookOutcome, to be called by the handler before it responds
+ */
+const webhookMetricsMiddleware = new Middleware({
+  handler: async ({ response }): Promise<{ recordWebhookOutcome: (outcome: WebhookOutcome) => void }> => {
+    let outcome: WebhookOutcome | undefined;
+
+    response.once('finish', () => {
+      const status = response.statusCode;
+      const counted =
+        status >= StatusCodes.INTERNAL_SERVER_ERROR
+          ? 'error'
+          : status >= StatusCodes.BAD_REQUEST
+            ? 'rejected'
+            : (outcome ?? 'queued');
+      PrometheusService.getInstance().recordWebhook(counted, status);
+    });
+
+    return {
+      recordWebhookOutcome: (recorded: WebhookOutcome) => {
+        outcome = recorded;
+      },
+    };
+  },
+});
+
+export default webhookMetricsMiddleware;
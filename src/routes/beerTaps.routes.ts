@@ -16,7 +16,15 @@ export const beerTapsEndpoint = defaultEndpointsFactory.build({
 
     const publicTaps = filteredTaps.map(tap => {
       // Omit internal configuration properties that shouldn't be exposed
-      const baseTap = omit(tap, ['thingsBoardDeviceId', 'thingsBoardCupSize', 'thingsBoardServerUrl']);
+      const baseTap = omit(tap, [
+        'thingsBoardDeviceId',
+        'thingsBoardCupSize',
+        'thingsBoardServerUrl',
+        'priority',
+        'queue',
+        'fallbackTapIds',
+        'driver',
+      ]);
 
       // Add computed identity verification properties
       const identityVerificationRequired = tap.identityVerification?.enabled ?? false;
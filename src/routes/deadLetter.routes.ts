@@ -0,0 +1,129 @@
+import { defaultEndpointsFactory } from 'express-zod-api';
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import adminAuthMiddleware from '../middlewares/admin-auth.middlewares.js';
+import {
+  deadLetterAuditResponseSchema,
+  deadLetterBulkResponseSchema,
+  deadLetterItemInputSchema,
+  deadLetterItemResponseSchema,
+  deadLetterListInputSchema,
+  deadLetterListResponseSchema,
+  deadLetterResolveInputSchema,
+  deadLetterTapInputSchema,
+} from '../schemas/dead-letter.schemas.js';
+import { DeadLetterService } from '../services/queue/dead-letter.service.js';
+import { QueueManagerService } from '../services/queue/queue-manager.service.js';
+import { BeerTapQueueItem, QueueItem } from '../types/queue.js';
+
+const adminEndpointsFactory = defaultEndpointsFactory.addMiddleware(adminAuthMiddleware);
+
+function getDeadLetterService(): DeadLetterService {
+  if (!QueueManagerService.getInstance().isReady()) {
+    throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, 'Queue service not available');
+  }
+  return DeadLetterService.getInstance();
+}
+
+function toItemOutput(item: QueueItem<BeerTapQueueItem>) {
+  return {
+    id: item.id,
+    beerTapId: item.beerTapId,
+    priority: item.priority,
+    attempts: item.attempts,
+    maxAttempts: item.maxAttempts,
+    errors: item.errors,
+    createdAt: item.createdAt.toISOString(),
+    scheduledAt: item.scheduledAt.toISOString(),
+    lastAttemptAt: item.lastAttemptAt?.toISOString(),
+    deadLetterReason: item.deadLetterReason,
+    data: item.data,
+  };
+}
+
+export const listDeadLettersEndpoint = adminEndpointsFactory.build({
+  method: 'get',
+  input: deadLetterListInputSchema,
+  output: deadLetterListResponseSchema,
+  handler: async ({ input: { beerTapId, offset, limit } }) => {
+    const { total, items } = await getDeadLetterService().list(beerTapId, offset, limit);
+    return { beerTapId, total, items: items.map(toItemOutput) };
+  },
+  description: 'List dead-lettered items of a beer tap with their errors and attempts',
+});
+
+export const purgeDeadLettersEndpoint = adminEndpointsFactory.build({
+  method: 'delete',
+  input: deadLetterTapInputSchema,
+  output: deadLetterBulkResponseSchema,
+  handler: async ({ input: { beerTapId, note }, options: { actor } }) => {
+    const items = await getDeadLetterService().purge(beerTapId, actor, note);
+    return { count: items.length, items: items.map(toItemOutput) };
+  },
+  description: 'Drop all dead-lettered items of a beer tap, they stay readable in the audit trail',
+});
+
+export const requeueAllDeadLettersEndpoint = adminEndpointsFactory.build({
+  method: 'post',
+  input: deadLetterTapInputSchema,
+  output: deadLetterBulkResponseSchema,
+  handler: async ({ input: { beerTapId, note }, options: { actor } }) => {
+    const items = await getDeadLetterService().requeueAll(beerTapId, actor, note);
+    return { count: items.length, items: items.map(toItemOutput) };
+  },
+  description: 'Put all dead-lettered items of a beer tap back on its queue with their attempts reset',
+});
+
+export const deadLetterAuditEndpoint = adminEndpointsFactory.build({
+  method: 'get',
+  input: deadLetterListInputSchema,
+  output: deadLetterAuditResponseSchema,
+  handler: async ({ input: { beerTapId, offset, limit } }) => {
+    const entries = await getDeadLetterService().getAuditTrail(beerTapId, offset, limit);
+    return {
+      beerTapId,
+      entries: entries.map(entry => ({
+        id: entry.id,
+        action: entry.action,
+        actor: entry.actor,
+        itemIds: entry.itemIds,
+        resolution: entry.resolution,
+        note: entry.note,
+        items: entry.items.map(toItemOutput),
+        timestamp: entry.timestamp.toISOString(),
+      })),
+    };
+  },
+  description: 'Get the audit trail of dead letter queue changes of a beer tap, newest first',
+});
+
+export const getDeadLetterEndpoint = adminEndpointsFactory.build({
+  method: 'get',
+  input: deadLetterItemInputSchema,
+  output: deadLetterItemResponseSchema,
+  handler: async ({ input: { beerTapId, itemId } }) => {
+    return { item: toItemOutput(await getDeadLetterService().get(beerTapId, itemId)) };
+  },
+  description: 'Inspect a dead-lettered item',
+});
+
+export const requeueDeadLetterEndpoint = adminEndpointsFactory.build({
+  method: 'post',
+  input: deadLetterItemInputSchema,
+  output: deadLetterItemResponseSchema,
+  handler: async ({ input: { beerTapId, itemId, note }, options: { actor } }) => {
+    return { item: toItemOutput(await getDeadLetterService().requeue(beerTapId, itemId, actor, note)) };
+  },
+  description: 'Put a dead-lettered item back on its queue with its attempts reset',
+});
+
+export const resolveDeadLetterEndpoint = adminEndpointsFactory.build({
+  method: 'post',
+  input: deadLetterResolveInputSchema,
+  output: deadLetterItemResponseSchema,
+  handler: async ({ input: { beerTapId, itemId, resolution, note }, options: { actor } }) => {
+    const item = await getDeadLetterService().resolve(beerTapId, itemId, resolution, actor, note);
+    return { item: toItemOutput(item) };
+  },
+  description: 'Mark a dead-lettered item as refunded or served by hand and remove it from the queue',
+});
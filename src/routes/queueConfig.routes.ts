@@ -0,0 +1,20 @@
+import { defaultEndpointsFactory } from 'express-zod-api';
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { tapQueueConfigsResponseSchema } from '../schemas/common.schemas.js';
+import { QueueManagerService } from '../services/queue/queue-manager.service.js';
+
+export const tapQueueConfigsEndpoint = defaultEndpointsFactory.build({
+  method: 'get',
+  output: tapQueueConfigsResponseSchema,
+  handler: async () => {
+    const queueManager = QueueManagerService.getInstance();
+
+    if (!queueManager.isReady()) {
+      throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, 'Queue service not available');
+    }
+
+    return { queues: queueManager.getQueueConfigs() };
+  },
+  description: 'Get the effective queue configuration of each beer tap, after applying its overrides to the defaults',
+});
@@ -16,6 +16,7 @@ export const statusEndpoint = defaultEndpointsFactory.build({
       txHash,
       status: result.status,
       queuePosition: result.queuePosition,
+      eta: result.scheduledAt?.toISOString(),
     };
   },
   description: 'Get transaction processing status by transaction hash',
@@ -0,0 +1,27 @@
+import { defaultEndpointsFactory } from 'express-zod-api';
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import adminAuthMiddleware from '../middlewares/admin-auth.middlewares.js';
+import { tapDriversResponseSchema } from '../schemas/common.schemas.js';
+import { QueueManagerService } from '../services/queue/queue-manager.service.js';
+
+const adminEndpointsFactory = defaultEndpointsFactory.addMiddleware(adminAuthMiddleware);
+
+export const tapDriversEndpoint = adminEndpointsFactory.build({
+  method: 'get',
+  output: tapDriversResponseSchema,
+  handler: async () => {
+    const queueManager = QueueManagerService.getInstance();
+
+    if (!queueManager.isReady()) {
+      throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, 'Queue service not available');
+    }
+
+    const taps = await queueManager.getDriverHealth();
+
+    return {
+      taps: taps.map(tap => ({ ...tap, health: { ...tap.health, checkedAt: tap.health.checkedAt.toISOString() } })),
+    };
+  },
+  description: 'Get the device driver of every beer tap and check that its device can be reached',
+});
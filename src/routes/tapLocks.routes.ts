@@ -0,0 +1,20 @@
+import { defaultEndpointsFactory } from 'express-zod-api';
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { tapLocksResponseSchema } from '../schemas/common.schemas.js';
+import { QueueManagerService } from '../services/queue/queue-manager.service.js';
+
+export const tapLocksEndpoint = defaultEndpointsFactory.build({
+  method: 'get',
+  output: tapLocksResponseSchema,
+  handler: async () => {
+    const queueManager = QueueManagerService.getInstance();
+
+    if (!queueManager.isReady()) {
+      throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, 'Queue service not available');
+    }
+
+    return await queueManager.getTapLocks();
+  },
+  description: 'Get which instance currently drives each beer tap, with its fencing token',
+});
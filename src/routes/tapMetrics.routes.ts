@@ -0,0 +1,26 @@
+import { defaultEndpointsFactory } from 'express-zod-api';
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { tapMetricsResponseSchema } from '../schemas/common.schemas.js';
+import { QueueManagerService } from '../services/queue/queue-manager.service.js';
+
+export const tapMetricsEndpoint = defaultEndpointsFactory.build({
+  method: 'get',
+  output: tapMetricsResponseSchema,
+  handler: async () => {
+    const queueManager = QueueManagerService.getInstance();
+
+    if (!queueManager.isReady()) {
+      throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, 'Queue service not available');
+    }
+
+    const taps = await queueManager.getTapMetrics();
+
+    return {
+      taps: taps.map(tap => ({ ...tap, lastProcessedAt: tap.lastProcessedAt?.toISOString() })),
+    };
+  },
+  description:
+    'Get per beer tap throughput and latency percentiles, including how long customers wait for their pour, ' +
+    'for the last hour, the last day and all time',
+});
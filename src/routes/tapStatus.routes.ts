@@ -0,0 +1,30 @@
+import { defaultEndpointsFactory } from 'express-zod-api';
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { beerTapStatusesResponseSchema } from '../schemas/common.schemas.js';
+import { QueueManagerService } from '../services/queue/queue-manager.service.js';
+
+export const tapStatusEndpoint = defaultEndpointsFactory.build({
+  method: 'get',
+  output: beerTapStatusesResponseSchema,
+  handler: async () => {
+    const queueManager = QueueManagerService.getInstance();
+
+    if (!queueManager.isReady()) {
+      throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, 'Queue service not available');
+    }
+
+    const taps = await queueManager.getBeerTapStatuses();
+
+    return {
+      taps: taps.map(tap => ({
+        ...tap,
+        statusUpdatedAt: tap.statusUpdatedAt?.toISOString(),
+        lastSuccessfulPollAt: tap.lastSuccessfulPollAt?.toISOString(),
+      })),
+    };
+  },
+  description:
+    'Get the live status of every beer tap: device status, last status update and successful poll, ' +
+    'consecutive read errors, queue length and the item being poured',
+});
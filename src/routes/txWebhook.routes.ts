@@ -5,29 +5,61 @@ import authMiddleware from '../middlewares/auth.middlewares.js';
 import requestIdMiddleware from '../middlewares/request-id.middlewares.js';
 import txValidationMiddleware from '../middlewares/validation.middlewares.js';
 import walletIdentityVerificationMiddleware from '../middlewares/wallet-identity.middlewares.js';
+import webhookMetricsMiddleware from '../middlewares/webhook-metrics.middlewares.js';
 import { statusResponseSchema } from '../schemas/common.schemas.js';
 import { txInputSchema } from '../schemas/tx.schemas.js';
 import { QueueManagerService } from '../services/queue/queue-manager.service.js';
+import { ReplayProtectionService } from '../services/replay-protection.service.js';
 
 export const txWebhook = defaultEndpointsFactory
+  .addMiddleware(webhookMetricsMiddleware)
   .addMiddleware(requestIdMiddleware)
   .addMiddleware(authMiddleware)
   .addMiddleware(txValidationMiddleware)
   .addMiddleware(walletIdentityVerificationMiddleware)
   .build({
     method: 'post',
-    handler: async ({ options: { requestId, startTime, transaction, walletVerificationResult }, logger }) => {
+    handler: async ({ input: { txHash, chainId }, options, logger }) => {
+      const { requestId, startTime, signer, recordWebhookOutcome } = options;
+
+      if (options.pendingVerification) {
+        const queueManager = QueueManagerService.getInstance();
+
+        if (!queueManager.isReady()) {
+          logger.error('Queue service not available', { requestId, txHash });
+          throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, 'Queue service not available');
+        }
+
+        await queueManager.registerPendingVerification(txHash, chainId, requestId);
+
+        logger.info('Transaction registered for pending verification', { requestId, txHash });
+        recordWebhookOutcome('pending_verification');
+
+        return {
+          status: 'Transaction pending verification',
+        };
+      }
+
+      const { transaction, parsedMemo, pour, conversion, scheduledAt, walletVerificationResult } = options;
       const handlerStartTime = Date.now();
-      
+
       logger.info('Starting webhook transaction processing', {
         requestId,
         txHash: transaction.txHash,
         totalRequestTime: handlerStartTime - startTime,
+        signer,
         senderAddress: transaction.senderAddress,
         receiverAddress: transaction.receiverAddress,
         invoiceAmount: transaction.invoiceAmount,
         invoiceCurrency: transaction.invoiceCurrency,
         memo: transaction.memo,
+        beerTapId: parsedMemo.beerTapId,
+        orderReference: parsedMemo.orderReference,
+        quantity: pour.quantity,
+        cupSize: pour.cupSize,
+        convertedAmount: conversion?.convertedAmount,
+        fxRate: conversion?.rate,
+        scheduledAt,
       });
 
       try {
@@ -55,7 +87,11 @@ export const txWebhook = defaultEndpointsFactory
         }
 
         // Process the transaction through the queue system using data from middleware
-        const result = await queueManager.processWebhookTransaction(transaction, logger);
+        const result = await queueManager.processWebhookTransaction(
+          transaction,
+          { memo: parsedMemo, pour, conversion, scheduledAt, receivedAt: new Date(startTime) },
+          logger
+        );
 
         if (!result.success) {
           logger.error('Queue manager processing failed', {
@@ -66,6 +102,23 @@ export const txWebhook = defaultEndpointsFactory
           throw createHttpError(StatusCodes.INTERNAL_SERVER_ERROR, result.message);
         }
 
+        if (result.duplicate) {
+          logger.info('Duplicate webhook delivery, returning existing status', {
+            requestId,
+            txHash: transaction.txHash,
+            paymentIndex: transaction.paymentIndex,
+            status: result.status,
+          });
+          recordWebhookOutcome('duplicate');
+
+          return {
+            status: result.message,
+          };
+        }
+
+        // Only payments that were validated and queued count as accepted, redeliveries don't
+        await ReplayProtectionService.getInstance().recordAccepted(transaction.senderAddress);
+
         const totalDuration = Date.now() - startTime;
         const handlerDuration = Date.now() - handlerStartTime;
 
@@ -76,12 +129,14 @@ export const txWebhook = defaultEndpointsFactory
           handlerDuration,
         });
 
+        recordWebhookOutcome('queued');
+
         return {
           status: 'Transaction queued for processing',
         };
       } catch (error) {
         const errorDuration = Date.now() - startTime;
-        
+
         logger.error('Webhook processing failed', {
           requestId,
           txHash: transaction.txHash,
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { queueStatusSchema } from './queue.schemas.js';
 
 // Shared input validation for address
 export const addressInput = z.object({
@@ -21,6 +22,13 @@ export const publicBeerTapSchema = z
     description: z.string().optional(),
     transactionCurrency: z.string(),
     transactionAmount: z.string(),
+    prices: z.array(
+      z.object({
+        amount: z.string(),
+        cupSize: z.number(),
+        memoSuffix: z.string().optional(),
+      })
+    ),
     transactionMemo: z.string(),
     transactionReceiverEns: z.string(),
     identityVerificationRequired: z.boolean(),
@@ -40,3 +48,111 @@ export const publicBeerTapSchema = z
 export const beerTapsResponseSchema = z.object({
   beerTaps: z.array(publicBeerTapSchema),
 });
+
+export const tapLocksResponseSchema = z.object({
+  instanceId: z.string(),
+  locks: z.array(
+    z.object({
+      beerTapId: z.string(),
+      owner: z.string().nullable(),
+      fencingToken: z.number().nullable(),
+      expiresInMs: z.number().nullable(),
+      ownedByThisInstance: z.boolean(),
+    })
+  ),
+});
+
+export const tapQueueConfigsResponseSchema = z.object({
+  queues: z.array(
+    z.object({
+      beerTapId: z.string(),
+      config: z.object({
+        maxAttempts: z.number(),
+        retryStrategy: z.enum(['exponential', 'linear', 'constant', 'decorrelated_jitter']),
+        baseDelay: z.number(),
+        maxDelay: z.number(),
+        concurrency: z.number(),
+        statusPollingInterval: z.number(),
+        deadLetterQueueEnabled: z.boolean(),
+        leaseDuration: z.number(),
+        reaperInterval: z.number(),
+        pollingInterval: z.number(),
+        priorityHeadStarts: z.object({
+          high: z.number(),
+          normal: z.number(),
+          low: z.number(),
+        }),
+      }),
+    })
+  ),
+});
+
+const latencySummarySchema = z.object({
+  count: z.number(),
+  average: z.number().nullable(),
+  p50: z.number().nullable(),
+  p95: z.number().nullable(),
+  p99: z.number().nullable(),
+});
+
+const queueMetricsWindowSchema = z.object({
+  completedItems: z.number(),
+  failedItems: z.number(),
+  retriedItems: z.number(),
+  processingTime: latencySummarySchema,
+  timeToPour: latencySummarySchema,
+});
+
+export const tapMetricsResponseSchema = z.object({
+  taps: z.array(
+    z.object({
+      beerTapId: z.string(),
+      queueLength: z.number(),
+      processingItems: z.number(),
+      lastProcessedAt: z.string().optional(),
+      lastHour: queueMetricsWindowSchema,
+      lastDay: queueMetricsWindowSchema,
+      allTime: queueMetricsWindowSchema,
+    })
+  ),
+});
+
+export const beerTapStatusesResponseSchema = z.object({
+  taps: z.array(
+    z.object({
+      beerTapId: z.string(),
+      status: queueStatusSchema,
+      statusUpdatedAt: z.string().optional(),
+      lastSuccessfulPollAt: z.string().optional(),
+      consecutiveErrors: z.number(),
+      remainingVolume: z.number().optional(),
+      queueLength: z.number(),
+      inFlightItem: z
+        .object({
+          itemId: z.string(),
+          quantity: z.number(),
+          cupsPoured: z.number(),
+        })
+        .optional(),
+    })
+  ),
+});
+
+export const tapDriversResponseSchema = z.object({
+  taps: z.array(
+    z.object({
+      beerTapId: z.string(),
+      driver: z.object({
+        type: z.enum(['thingsboard', 'blynk', 'simulator']),
+        device: z.string(),
+        server: z.string().optional(),
+      }),
+      health: z.object({
+        healthy: z.boolean(),
+        latencyMs: z.number(),
+        error: z.string().optional(),
+        checkedAt: z.string(),
+      }),
+    })
+  ),
+});
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+// Admin API for dead-lettered beer tap items
+export const deadLetterResolutionSchema = z.enum(['refunded', 'served']);
+
+export const deadLetterTapInputSchema = z.object({
+  beerTapId: z.string().min(1),
+  note: z.string().max(500).optional(),
+});
+
+export const deadLetterListInputSchema = z.object({
+  beerTapId: z.string().min(1),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export const deadLetterItemInputSchema = z.object({
+  beerTapId: z.string().min(1),
+  itemId: z.string().min(1),
+  note: z.string().max(500).optional(),
+});
+
+export const deadLetterResolveInputSchema = deadLetterItemInputSchema.extend({
+  resolution: deadLetterResolutionSchema,
+});
+
+export const deadLetterItemSchema = z.object({
+  id: z.string(),
+  beerTapId: z.string().optional(),
+  priority: z.enum(['high', 'normal', 'low']).optional(),
+  attempts: z.number(),
+  maxAttempts: z.number(),
+  errors: z.array(z.string()),
+  createdAt: z.string(),
+  scheduledAt: z.string(),
+  lastAttemptAt: z.string().optional(),
+  deadLetterReason: z.string().optional(),
+  data: z.object({
+    transactionHash: z.string(),
+    paymentIndex: z.number(),
+    receiverEns: z.string(),
+    memo: z.string(),
+    currency: z.string(),
+    amount: z.string(),
+    quantity: z.number(),
+    cupSize: z.number(),
+    cupsPoured: z.number().optional(),
+    orderReference: z.string().optional(),
+    conversion: z
+      .object({
+        fromCurrency: z.string(),
+        toCurrency: z.string(),
+        originalAmount: z.string(),
+        convertedAmount: z.string(),
+        rate: z.number(),
+        source: z.string(),
+      })
+      .optional(),
+  }),
+});
+
+export const deadLetterListResponseSchema = z.object({
+  beerTapId: z.string(),
+  total: z.number(),
+  items: z.array(deadLetterItemSchema),
+});
+
+export const deadLetterItemResponseSchema = z.object({
+  item: deadLetterItemSchema,
+});
+
+export const deadLetterBulkResponseSchema = z.object({
+  count: z.number(),
+  items: z.array(deadLetterItemSchema),
+});
+
+export const deadLetterAuditResponseSchema = z.object({
+  beerTapId: z.string(),
+  entries: z.array(
+    z.object({
+      id: z.string(),
+      action: z.enum(['requeue', 'requeue_all', 'purge', 'resolve']),
+      actor: z.string(),
+      itemIds: z.array(z.string()),
+      resolution: deadLetterResolutionSchema.optional(),
+      note: z.string().optional(),
+      items: z.array(deadLetterItemSchema),
+      timestamp: z.string(),
+    })
+  ),
+});
@@ -1,8 +1,9 @@
 import { z } from 'zod';
-import { QueueStatus, RetryStrategy } from '../types/queue.js';
+import { QueuePriority, QueueStatus, RetryStrategy } from '../types/queue.js';
 
 // Queue configuration schemas
 export const retryStrategySchema = z.nativeEnum(RetryStrategy);
+export const queuePrioritySchema = z.nativeEnum(QueuePriority);
 
 export const queueConfigSchema = z.object({
   maxAttempts: z.number().min(1).max(10).default(3),
@@ -12,6 +13,10 @@ export const queueConfigSchema = z.object({
   concurrency: z.number().min(1).max(10).default(1),
   statusPollingInterval: z.number().min(1000).max(60000).default(5000), // 1s to 60s
   deadLetterQueueEnabled: z.boolean().default(true),
+  leaseDuration: z.number().min(5000).max(600000).default(60000), // 5s to 10min
+  reaperInterval: z.number().min(1000).max(300000).default(15000), // 1s to 5min
+  pollingInterval: z.number().min(1000).max(60000).default(5000), // 1s to 60s
+  priorityHeadStarts: z.record(queuePrioritySchema, z.number()).optional(),
 });
 
 // Queue item schemas
@@ -25,15 +30,33 @@ export const queueItemSchema = z.object({
   lastAttemptAt: z.date().optional(),
   errors: z.array(z.string()),
   beerTapId: z.string().optional(),
+  priority: queuePrioritySchema.optional(),
+  rank: z.number().optional(),
 });
 
 export const beerTapQueueItemSchema = z.object({
   transactionHash: z.string().min(1),
+  paymentIndex: z.number().int().min(0),
   beerTapId: z.string().min(1),
   receiverEns: z.string().min(1),
   memo: z.string().min(1),
   currency: z.string().min(1),
   amount: z.string().min(1),
+  quantity: z.number().int().min(1),
+  cupSize: z.number().positive(),
+  cupsPoured: z.number().int().min(0).optional(),
+  orderReference: z.string().optional(),
+  conversion: z
+    .object({
+      fromCurrency: z.string().min(1),
+      toCurrency: z.string().min(1),
+      originalAmount: z.string().min(1),
+      convertedAmount: z.string().min(1),
+      rate: z.number().positive(),
+      source: z.string().min(1),
+      fetchedAt: z.date(),
+    })
+    .optional(),
   timestamp: z.date(),
 });
 
@@ -81,6 +104,7 @@ export const queueMetricsSchema = z.object({
   completedItems: z.number().min(0),
   averageProcessingTime: z.number().min(0),
   lastProcessedAt: z.date().optional(),
+  retriedItems: z.number().min(0),
 });
 
 // Queue processing result schemas
@@ -90,6 +114,25 @@ export const queueProcessingResultSchema = z.object({
   processingTime: z.number().min(0),
   error: z.string().optional(),
   shouldRetry: z.boolean(),
+  failureClass: z.enum(['retryable', 'terminal']).optional(),
+  reasonCode: z
+    .enum([
+      'timeout',
+      'device_unavailable',
+      'device_not_ready',
+      'device_offline',
+      'tap_maintenance',
+      'rate_limited',
+      'lock_lost',
+      'unknown',
+      'device_rejected',
+      'device_not_found',
+      'tap_misconfigured',
+      'keg_empty',
+      'flow_fault',
+      'max_attempts_exceeded',
+    ])
+    .optional(),
 });
 
 // Redis connection schema
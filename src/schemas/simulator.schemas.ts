@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+// Control API of the ThingsBoard simulator
+export const simulatorFaultSchema = z.object({
+  type: z.enum(['timeout', 'server_error', 'stuck_busy', 'auth_expiry']),
+  deviceId: z.string().min(1).optional(),
+  endpoints: z
+    .array(z.enum(['auth', 'rpc', 'telemetry']))
+    .min(1)
+    .optional(),
+  count: z.number().int().positive().optional(),
+  status: z.number().int().min(500).max(599).default(500),
+  delayMs: z.number().int().min(0).max(300000).default(30000),
+});
+
+export const simulatorDeviceUpdateSchema = z.object({
+  active: z.boolean().optional(),
+  mode: z.string().optional(),
+  kegEmpty: z.boolean().optional(),
+  flowFault: z.boolean().optional(),
+  kegLevel: z.number().min(0).optional(),
+});
+
+// Shared by the app config, which can run the simulator in process, and the standalone simulator script
+export const simulatorEnvSchema = z.object({
+  THINGSBOARD_SIMULATOR_PORT: z.string().transform(Number).pipe(z.number().int().min(1).max(65535)).optional(),
+  THINGSBOARD_SIMULATOR_POUR_RATE: z.string().transform(Number).pipe(z.number().positive()).default('50'),
+  THINGSBOARD_SIMULATOR_KEG_VOLUME: z.string().transform(Number).pipe(z.number().positive()).optional(),
+  THINGSBOARD_SIMULATOR_TOKEN_TTL: z.string().transform(Number).pipe(z.number().int().min(1)).default('9000'),
+});
@@ -12,6 +12,8 @@ export const statusInputSchema = z.object({
 
 export const statusResponseSchema = z.object({
   txHash: z.string(),
-  status: z.enum(['not_found', 'queued', 'processing', 'completed', 'failed']),
+  status: z.enum(['not_found', 'pending_verification', 'scheduled', 'queued', 'processing', 'completed', 'failed']),
   queuePosition: z.number().optional(),
+  // When a scheduled pour becomes due, ISO 8601
+  eta: z.string().optional(),
 });
@@ -8,4 +8,6 @@ export const txInputSchema = z.object({
     }
     return txHash;
   }),
+  // Lets on-chain payment lookups go straight to the right chain instead of searching all configured ones
+  chainId: z.coerce.number().int().positive().optional(),
 });
@@ -0,0 +1,23 @@
+import 'dotenv/config';
+import { simulatorEnvSchema } from '../schemas/simulator.schemas.js';
+import { ThingsBoardSimulator } from '../services/thingsboard/thingsboard-simulator.service.js';
+
+// Runs the ThingsBoard simulator on its own, without the rest of the app's configuration
+const env = simulatorEnvSchema.parse(process.env);
+
+const simulator = new ThingsBoardSimulator({
+  pourRate: env.THINGSBOARD_SIMULATOR_POUR_RATE,
+  kegVolume: env.THINGSBOARD_SIMULATOR_KEG_VOLUME,
+  username: process.env.THINGSBOARD_USERNAME,
+  password: process.env.THINGSBOARD_PASSWORD,
+  tokenTtl: env.THINGSBOARD_SIMULATOR_TOKEN_TTL,
+});
+
+await simulator.listen(env.THINGSBOARD_SIMULATOR_PORT ?? 8090);
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, async () => {
+    await simulator.close();
+    process.exit(0);
+  });
+}
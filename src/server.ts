@@ -1,12 +1,29 @@
 import 'dotenv/config';
-import { createConfig, createServer, Routing } from 'express-zod-api';
+import { createConfig, createServer, DependsOnMethod, Routing } from 'express-zod-api';
 import { config as appConfig } from './config/index.js';
 import { beerTapsEndpoint } from './routes/beerTaps.routes.js';
+import {
+  deadLetterAuditEndpoint,
+  getDeadLetterEndpoint,
+  listDeadLettersEndpoint,
+  purgeDeadLettersEndpoint,
+  requeueAllDeadLettersEndpoint,
+  requeueDeadLetterEndpoint,
+  resolveDeadLetterEndpoint,
+} from './routes/deadLetter.routes.js';
 import { healthEndpoint } from './routes/health.routes.js';
 import { checkStatus, generateConfig, verifyIdentity } from './routes/identity.routes.js';
+import { tapQueueConfigsEndpoint } from './routes/queueConfig.routes.js';
+import { tapMetricsEndpoint } from './routes/tapMetrics.routes.js';
+import { tapStatusEndpoint } from './routes/tapStatus.routes.js';
 import { statusEndpoint } from './routes/status.js';
+import { tapDriversEndpoint } from './routes/tapDrivers.routes.js';
+import { tapLocksEndpoint } from './routes/tapLocks.routes.js';
 import { txWebhook } from './routes/txWebhook.routes.js';
+import { PrometheusService } from './services/prometheus.service.js';
 import { QueueManagerService } from './services/queue/queue-manager.service.js';
+import { ThingsBoardSimulator } from './services/thingsboard/thingsboard-simulator.service.js';
+import { PROMETHEUS_CONTENT_TYPE } from './utils/prometheus.js';
 
 const config = createConfig({
   http: {
@@ -18,13 +35,32 @@ const config = createConfig({
     color: true,
   },
   startupLogo: false,
+  // Prometheus expects plain text, so /metrics is served outside the JSON endpoints
+  beforeRouting: ({ app }) => {
+    app.get('/metrics', async (_request, response) => {
+      try {
+        response.type(PROMETHEUS_CONTENT_TYPE).send(await PrometheusService.getInstance().render());
+      } catch (error) {
+        response
+          .status(500)
+          .type('text/plain')
+          .send(error instanceof Error ? error.message : 'Metrics unavailable');
+      }
+    });
+  },
 });
 
 export const routing: Routing = {
   v1: {
     health: healthEndpoint,
     callback: txWebhook,
-    'beer-taps': beerTapsEndpoint,
+    'beer-taps': {
+      '': beerTapsEndpoint,
+      locks: tapLocksEndpoint,
+      'queue-config': tapQueueConfigsEndpoint,
+      metrics: tapMetricsEndpoint,
+      status: tapStatusEndpoint,
+    },
     status: {
       ':txHash': statusEndpoint,
     },
@@ -37,11 +73,33 @@ export const routing: Routing = {
         },
       },
     },
+    admin: {
+      drivers: tapDriversEndpoint,
+      'dead-letter': {
+        ':beerTapId': {
+          '': new DependsOnMethod({ get: listDeadLettersEndpoint, delete: purgeDeadLettersEndpoint }),
+          requeue: requeueAllDeadLettersEndpoint,
+          audit: deadLetterAuditEndpoint,
+          ':itemId': {
+            '': getDeadLetterEndpoint,
+            requeue: requeueDeadLetterEndpoint,
+            resolve: resolveDeadLetterEndpoint,
+          },
+        },
+      },
+    },
   },
 };
 
 async function startServer() {
   try {
+    // The simulator has to be up before the queue starts polling the taps
+    const { simulator: simulatorConfig, username, password } = appConfig.thingsBoard;
+    const simulator = simulatorConfig.port
+      ? new ThingsBoardSimulator({ ...simulatorConfig, username, password })
+      : null;
+    await simulator?.listen(simulatorConfig.port!);
+
     const queueManager = QueueManagerService.getInstance();
     await queueManager.init();
 
@@ -49,11 +107,13 @@ async function startServer() {
 
     process.on('SIGTERM', async () => {
       await queueManager.destroy();
+      await simulator?.close();
       process.exit(0);
     });
 
     process.on('SIGINT', async () => {
       await queueManager.destroy();
+      await simulator?.close();
       process.exit(0);
     });
 
@@ -0,0 +1,53 @@
+import { config } from '../../config/index.js';
+import { CurrencyConversion, FxRateProvider } from '../../types/fx.js';
+import { RedisService } from '../redis.service.js';
+import { HttpFxRateService } from './http-fx-rate.service.js';
+import { StaticFxRateService } from './static-fx-rate.service.js';
+
+// Singleton instance
+let providerInstance: FxRateProvider | null = null;
+
+/**
+ * Gets the FX rate provider selected by the FX_PROVIDER env variable
+ */
+export function getFxRateProvider(): FxRateProvider {
+  if (!providerInstance) {
+    providerInstance =
+      config.fx.provider === 'http'
+        ? new HttpFxRateService(RedisService.getInstance(config.redis.url), {
+            url: config.fx.httpUrl,
+            cacheTtl: config.fx.cacheTtl,
+            timeout: config.fx.httpTimeout,
+          })
+        : new StaticFxRateService(config.fx.staticRates);
+  }
+  return providerInstance;
+}
+
+/**
+ * Converts an amount between currencies using the given provider
+ *
+ * @param amount - The amount to convert, as sent by the indexer
+ * @param from - Currency of the amount
+ * @param to - Currency to convert into
+ * @param provider - FX rate provider, defaults to the configured one
+ * @returns Conversion details, including the rate used for auditing
+ */
+export async function convertCurrency(
+  amount: string,
+  from: string,
+  to: string,
+  provider: FxRateProvider = getFxRateProvider()
+): Promise<CurrencyConversion> {
+  const fxRate = await provider.getRate(from, to);
+
+  return {
+    fromCurrency: fxRate.from,
+    toCurrency: fxRate.to,
+    originalAmount: amount,
+    convertedAmount: (Number(amount) * fxRate.rate).toFixed(6),
+    rate: fxRate.rate,
+    source: fxRate.source,
+    fetchedAt: fxRate.fetchedAt,
+  };
+}
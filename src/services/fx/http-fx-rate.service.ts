@@ -0,0 +1,93 @@
+import { FxRate, FxRateProvider } from '../../types/fx.js';
+import { RedisService } from '../redis.service.js';
+
+interface HttpFxRateConfig {
+  url: string;
+  cacheTtl: number;
+  timeout: number;
+}
+
+interface FxRatesResponse {
+  rates?: Record<string, number>;
+}
+
+/**
+ * FX rate provider backed by an HTTP rates API with a Redis cache
+ *
+ * The API is called as `GET {url}?from=USD&to=BRL` and must answer with
+ * `{ "rates": { "BRL": 5.4 } }` (the Frankfurter API format). Fetched rates are
+ * cached in Redis so that a burst of webhooks only hits the API once per pair.
+ */
+export class HttpFxRateService implements FxRateProvider {
+  public readonly name = 'http';
+  private redis: RedisService;
+  private config: HttpFxRateConfig;
+
+  // Request deduplication - key: "FROM/TO", value: Promise
+  private pendingRequests = new Map<string, Promise<FxRate>>();
+
+  constructor(redis: RedisService, config: HttpFxRateConfig) {
+    this.redis = redis;
+    this.config = config;
+  }
+
+  public async getRate(from: string, to: string): Promise<FxRate> {
+    const base = from.toUpperCase();
+    const quote = to.toUpperCase();
+
+    if (base === quote) {
+      return { from: base, to: quote, rate: 1, source: this.name, fetchedAt: new Date() };
+    }
+
+    const cacheKey = `fx:rate:${base}:${quote}`;
+    const cached = await this.redis.get(cacheKey);
+    if (cached) {
+      try {
+        const rate = JSON.parse(cached) as FxRate;
+        rate.fetchedAt = new Date(rate.fetchedAt);
+        return rate;
+      } catch {
+        await this.redis.del(cacheKey);
+      }
+    }
+
+    const requestKey = `${base}/${quote}`;
+    if (this.pendingRequests.has(requestKey)) {
+      return this.pendingRequests.get(requestKey)!;
+    }
+
+    const request = this.fetchRate(base, quote).then(async rate => {
+      await this.redis.setex(cacheKey, this.config.cacheTtl, JSON.stringify(rate));
+      return rate;
+    });
+
+    this.pendingRequests.set(requestKey, request);
+
+    try {
+      return await request;
+    } finally {
+      this.pendingRequests.delete(requestKey);
+    }
+  }
+
+  private async fetchRate(from: string, to: string): Promise<FxRate> {
+    const url = new URL(this.config.url);
+    url.searchParams.set('from', from);
+    url.searchParams.set('to', to);
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.config.timeout) });
+
+    if (!response.ok) {
+      throw new Error(`FX rate API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as FxRatesResponse;
+    const rate = data.rates?.[to];
+
+    if (typeof rate !== 'number' || !(rate > 0)) {
+      throw new Error(`FX rate API returned no rate for ${from}/${to}`);
+    }
+
+    return { from, to, rate, source: `${this.name}:${url.host}`, fetchedAt: new Date() };
+  }
+}
@@ -0,0 +1,44 @@
+import { FxRate, FxRateProvider } from '../../types/fx.js';
+
+/**
+ * FX rate provider backed by a fixed rate table
+ *
+ * Rates are keyed as "FROM/TO" (e.g. "USD/BRL": 5.4). The inverse pair is derived
+ * automatically, so a single entry covers both directions.
+ */
+export class StaticFxRateService implements FxRateProvider {
+  public readonly name = 'static';
+  private rates = new Map<string, number>();
+
+  constructor(rates: Record<string, number>) {
+    for (const [pair, rate] of Object.entries(rates)) {
+      const [from, to] = pair.toUpperCase().split('/');
+      if (!from || !to || !(rate > 0)) {
+        throw new Error(`Invalid static FX rate entry: ${pair}`);
+      }
+      this.rates.set(`${from}/${to}`, rate);
+    }
+  }
+
+  public async getRate(from: string, to: string): Promise<FxRate> {
+    const base = from.toUpperCase();
+    const quote = to.toUpperCase();
+    const fetchedAt = new Date();
+
+    if (base === quote) {
+      return { from: base, to: quote, rate: 1, source: this.name, fetchedAt };
+    }
+
+    const direct = this.rates.get(`${base}/${quote}`);
+    if (direct !== undefined) {
+      return { from: base, to: quote, rate: direct, source: this.name, fetchedAt };
+    }
+
+    const inverse = this.rates.get(`${quote}/${base}`);
+    if (inverse !== undefined) {
+      return { from: base, to: quote, rate: 1 / inverse, source: this.name, fetchedAt };
+    }
+
+    throw new Error(`No static FX rate configured for ${base}/${quote}`);
+  }
+}
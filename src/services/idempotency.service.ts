@@ -0,0 +1,164 @@
+import { DeadLetterResolution, IdempotencyRecord, IdempotencyStatus } from '../types/queue.js';
+import { RedisService } from './redis.service.js';
+
+const TERMINAL_STATUSES: IdempotencyStatus[] = ['completed', 'dead_lettered'];
+
+/**
+ * Durable idempotency ledger for webhook payments
+ *
+ * Every payment is identified by its transaction hash and payment index. The first
+ * webhook delivery claims the ledger entry, every later delivery sees the existing
+ * entry and is short-circuited, so each payment pours at most once regardless of
+ * how many times Yodl retries the callback.
+ */
+export class IdempotencyService {
+  private static instance: IdempotencyService;
+  private redis: RedisService;
+  private readonly ttl: number;
+
+  private constructor(redis: RedisService, ttl: number) {
+    this.redis = redis;
+    this.ttl = ttl;
+  }
+
+  public static getInstance(redis: RedisService, ttl: number): IdempotencyService {
+    if (!IdempotencyService.instance) {
+      IdempotencyService.instance = new IdempotencyService(redis, ttl);
+    }
+    return IdempotencyService.instance;
+  }
+
+  /**
+   * Claims the ledger entry for a payment
+   *
+   * @returns The new record when the claim succeeded, otherwise the existing record
+   */
+  public async claim(
+    txHash: string,
+    paymentIndex: number,
+    beerTapId: string
+  ): Promise<{ claimed: boolean; record: IdempotencyRecord }> {
+    const now = new Date();
+    const record: IdempotencyRecord = {
+      txHash,
+      paymentIndex,
+      status: 'queued',
+      beerTapId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const claimed = await this.redis.setIfNotExists(
+      this.getKey(txHash, paymentIndex),
+      JSON.stringify(record),
+      this.ttl
+    );
+    if (claimed) {
+      return { claimed: true, record };
+    }
+
+    const existing = await this.get(txHash, paymentIndex);
+    if (!existing) {
+      // Entry expired between the two calls, try once more
+      return this.claim(txHash, paymentIndex, beerTapId);
+    }
+
+    return { claimed: false, record: existing };
+  }
+
+  /**
+   * Releases a claim that never made it into a queue so that a retried webhook can claim it again
+   */
+  public async release(txHash: string, paymentIndex: number): Promise<void> {
+    await this.redis.del(this.getKey(txHash, paymentIndex));
+  }
+
+  public async get(txHash: string, paymentIndex: number): Promise<IdempotencyRecord | null> {
+    const data = await this.redis.get(this.getKey(txHash, paymentIndex));
+    if (!data) {
+      return null;
+    }
+
+    try {
+      const record = JSON.parse(data) as IdempotencyRecord;
+      record.createdAt = new Date(record.createdAt);
+      record.updatedAt = new Date(record.updatedAt);
+      return record;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Moves a ledger entry to a new status. Terminal statuses are never left again.
+   *
+   * @returns The updated record, or null if the entry does not exist or is already terminal
+   */
+  public async transition(
+    txHash: string,
+    paymentIndex: number,
+    status: IdempotencyStatus,
+    details: Partial<Pick<IdempotencyRecord, 'beerTapId' | 'itemId'>> = {}
+  ): Promise<IdempotencyRecord | null> {
+    const existing = await this.get(txHash, paymentIndex);
+    if (!existing || this.isTerminal(existing.status)) {
+      return null;
+    }
+
+    const record: IdempotencyRecord = {
+      ...existing,
+      ...details,
+      status,
+      updatedAt: new Date(),
+    };
+
+    const updated = await this.redis.setIfExists(this.getKey(txHash, paymentIndex), JSON.stringify(record), this.ttl);
+    return updated ? record : null;
+  }
+
+  /**
+   * Puts a dead-lettered payment back to queued, the only way out of a terminal status, used when an operator requeues it
+   *
+   * @returns The updated record, or null if the entry does not exist or is not dead-lettered
+   */
+  public async reopen(txHash: string, paymentIndex: number): Promise<IdempotencyRecord | null> {
+    return await this.updateDeadLettered(txHash, paymentIndex, { status: 'queued' });
+  }
+
+  /**
+   * Records how an operator settled a dead-lettered payment, the entry stays dead-lettered so it is never poured
+   *
+   * @returns The updated record, or null if the entry does not exist or is not dead-lettered
+   */
+  public async resolve(
+    txHash: string,
+    paymentIndex: number,
+    resolution: DeadLetterResolution
+  ): Promise<IdempotencyRecord | null> {
+    return await this.updateDeadLettered(txHash, paymentIndex, { resolution });
+  }
+
+  public isTerminal(status: IdempotencyStatus): boolean {
+    return TERMINAL_STATUSES.includes(status);
+  }
+
+  private async updateDeadLettered(
+    txHash: string,
+    paymentIndex: number,
+    update: Partial<Pick<IdempotencyRecord, 'status' | 'resolution'>>
+  ): Promise<IdempotencyRecord | null> {
+    const existing = await this.get(txHash, paymentIndex);
+    if (!existing || existing.status !== 'dead_lettered') {
+      return null;
+    }
+
+    const record: IdempotencyRecord = { ...existing, ...update, updatedAt: new Date() };
+
+    const updated = await this.redis.setIfExists(this.getKey(txHash, paymentIndex), JSON.stringify(record), this.ttl);
+    return updated ? record : null;
+  }
+
+  private getKey(txHash: string, paymentIndex: number): string {
+    return `idempotency:${txHash.toLowerCase()}:${paymentIndex}`;
+  }
+}
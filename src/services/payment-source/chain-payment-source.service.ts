@@ -0,0 +1,306 @@
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import {
+  Address,
+  Chain,
+  createPublicClient,
+  erc20Abi,
+  formatUnits,
+  Hex,
+  hexToString,
+  http,
+  isAddressEqual,
+  parseAbi,
+  parseEventLogs,
+  PublicClient,
+  TransactionNotFoundError,
+  TransactionReceipt,
+  TransactionReceiptNotFoundError,
+} from 'viem';
+import * as chains from 'viem/chains';
+import { Logger } from '../../types/logger.js';
+import { Payment, PaymentLookupResult, PaymentSource } from '../../types/transaction.js';
+
+const yodlRouterAbi = parseAbi([
+  'event Yodl(address indexed sender, address indexed receiver, address token, uint256 amount, uint256 fees, bytes32 memo)',
+]);
+
+const NATIVE_TOKEN_ADDRESS: Address = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+const ENS_CHAIN_ID = 1;
+
+export interface DecodedYodlPayment {
+  paymentIndex: number;
+  sender: Address;
+  receiver: Address;
+  token: Address;
+  amount: bigint;
+  fees: bigint;
+  memo: string;
+}
+
+export interface TokenMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+interface ChainPaymentSourceOptions {
+  rpcUrls: Record<string, string>;
+  routers: Record<string, string[]>;
+  // Accepted tokens by chain id and contract address, mapped to the invoice currency they represent
+  tokenCurrencies: Record<string, Record<string, string>>;
+  timeout: number;
+}
+
+/**
+ * Decodes the first Yodl router payment event from a transaction receipt
+ *
+ * Pure so it can be run against recorded receipts without an RPC.
+ *
+ * @param receipt - The transaction receipt
+ * @param routers - Router addresses to accept events from, events from any other contract are ignored
+ * @returns The decoded payment, or null if the receipt contains no Yodl payment from a router
+ */
+export function decodeYodlPayment(receipt: TransactionReceipt, routers: string[]): DecodedYodlPayment | null {
+  const events = parseEventLogs({ abi: yodlRouterAbi, eventName: 'Yodl', logs: receipt.logs }).filter(event =>
+    routers.some(router => isAddressEqual(router as Address, event.address))
+  );
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  const { sender, receiver, token, amount, fees, memo } = events[0].args;
+
+  return {
+    // The position of the event's log in the transaction, so each payment of a transaction is told apart
+    paymentIndex: receipt.logs.findIndex(log => log.logIndex === events[0].logIndex),
+    sender,
+    receiver,
+    token,
+    amount,
+    fees,
+    // Memos are right-padded bytes32 strings
+    memo: hexToString(memo, { size: 32 }).replace(/\0+$/, ''),
+  };
+}
+
+/**
+ * Looks up the invoice currency an accepted token represents
+ *
+ * Tokens are matched on their contract address, as any token can claim a symbol such as USDC.
+ *
+ * @param tokenCurrencies - Accepted tokens of the chain by contract address
+ * @returns The currency, or undefined if the token is not accepted
+ */
+export function getTokenCurrency(tokenCurrencies: Record<string, string> = {}, token: Address): string | undefined {
+  const accepted = Object.keys(tokenCurrencies).find(address => isAddressEqual(address as Address, token));
+  return accepted ? tokenCurrencies[accepted] : undefined;
+}
+
+/**
+ * Builds the indexer-shaped Payment from a decoded Yodl event and the chain data around it
+ *
+ * On-chain payments carry no invoice currency, so the invoice is expressed in the token itself,
+ * in the currency the token represents (e.g. USDC settles a USD invoice).
+ */
+export function buildChainPayment(
+  chainId: number,
+  txHash: Hex,
+  decoded: DecodedYodlPayment,
+  token: TokenMetadata,
+  blockTimestamp: bigint,
+  ensNames: { sender: string; receiver: string },
+  invoiceCurrency: string
+): Payment {
+  const amount = formatUnits(decoded.amount, token.decimals);
+
+  return {
+    chainId,
+    txHash,
+    paymentIndex: decoded.paymentIndex,
+    destinationChainId: chainId,
+    destinationTxHash: txHash,
+    blockTimestamp: new Date(Number(blockTimestamp) * 1000).toISOString(),
+    tokenOutSymbol: token.symbol,
+    tokenOutAddress: decoded.token,
+    tokenOutAmountGross: amount,
+    receiverAddress: decoded.receiver,
+    receiverEnsPrimaryName: ensNames.receiver,
+    receiverYodlConfig: { chains: '', tokens: '' },
+    invoiceCurrency,
+    invoiceAmount: amount,
+    senderAddress: decoded.sender,
+    senderEnsPrimaryName: ensNames.sender,
+    memo: decoded.memo,
+  };
+}
+
+/**
+ * Reconstructs payments directly from chain via viem public clients
+ *
+ * Used when the YODL indexer is unavailable. Reads the transaction receipt, decodes the Yodl
+ * router event and resolves token metadata and ENS primary names (via mainnet, when configured).
+ */
+export class ChainPaymentSource implements PaymentSource {
+  public readonly name = 'chain';
+  private readonly options: ChainPaymentSourceOptions;
+  private clients = new Map<number, PublicClient>();
+  private tokenMetadata = new Map<string, TokenMetadata>();
+
+  constructor(options: ChainPaymentSourceOptions) {
+    this.options = options;
+  }
+
+  /**
+   * @throws {HttpError} - 400 if the given chain has no RPC URL configured
+   * @throws {HttpError} - 404 if the transaction is unknown, reverted or contains no Yodl payment
+   * @throws {HttpError} - 422 if the payment was made in a token that is not accepted
+   * @throws {HttpError} - 502 if the RPCs fail and the transaction was not found elsewhere
+   */
+  public async lookupPayment(txHash: Hex, logger?: Logger, chainId?: number): Promise<PaymentLookupResult> {
+    const chainIds = chainId !== undefined ? [chainId] : Object.keys(this.options.rpcUrls).map(Number);
+
+    if (chainId !== undefined && !this.options.rpcUrls[chainId]) {
+      throw createHttpError(StatusCodes.BAD_REQUEST, `No RPC configured for chain ${chainId}`);
+    }
+
+    const results = await Promise.all(chainIds.map(id => this.findReceipt(id, txHash, logger)));
+    const found = results.find(result => result.receipt);
+
+    if (found?.receipt) {
+      return {
+        status: 'found',
+        payment: await this.readPayment(found.chainId, txHash, found.receipt),
+        source: this.name,
+        cached: false,
+      };
+    }
+
+    const pending = results.find(result => result.pending);
+    if (pending) {
+      logger?.info('Transaction seen on chain but not mined yet', { txHash, chainId: pending.chainId });
+      return { status: 'pending', firstSeenAt: new Date() };
+    }
+
+    if (results.some(result => result.failed)) {
+      throw createHttpError(StatusCodes.BAD_GATEWAY, 'Failed to read transaction from chain');
+    }
+
+    throw createHttpError(StatusCodes.NOT_FOUND, 'Transaction not found on configured chains');
+  }
+
+  private async findReceipt(
+    chainId: number,
+    txHash: Hex,
+    logger?: Logger
+  ): Promise<{ chainId: number; receipt?: TransactionReceipt; pending?: boolean; failed?: boolean }> {
+    const client = this.getClient(chainId);
+
+    try {
+      return { chainId, receipt: await client.getTransactionReceipt({ hash: txHash }) };
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError)) {
+        logger?.warn('Failed to read transaction receipt', {
+          txHash,
+          chainId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return { chainId, failed: true };
+      }
+    }
+
+    // No receipt yet, but a known transaction is still waiting to be mined
+    try {
+      await client.getTransaction({ hash: txHash });
+      return { chainId, pending: true };
+    } catch (error) {
+      return { chainId, failed: !(error instanceof TransactionNotFoundError) };
+    }
+  }
+
+  private async readPayment(chainId: number, txHash: Hex, receipt: TransactionReceipt): Promise<Payment> {
+    if (receipt.status !== 'success') {
+      throw createHttpError(StatusCodes.NOT_FOUND, 'Transaction reverted');
+    }
+
+    const decoded = decodeYodlPayment(receipt, this.options.routers[chainId] ?? []);
+    if (!decoded) {
+      throw createHttpError(StatusCodes.NOT_FOUND, 'Transaction contains no Yodl payment');
+    }
+
+    const invoiceCurrency = getTokenCurrency(this.options.tokenCurrencies[chainId], decoded.token);
+    if (!invoiceCurrency) {
+      throw createHttpError(
+        StatusCodes.UNPROCESSABLE_ENTITY,
+        `Token ${decoded.token} is not accepted for payments on chain ${chainId}`
+      );
+    }
+
+    const client = this.getClient(chainId);
+
+    try {
+      const [token, block, sender, receiver] = await Promise.all([
+        this.getTokenMetadata(chainId, decoded.token),
+        client.getBlock({ blockNumber: receipt.blockNumber }),
+        this.getEnsName(decoded.sender),
+        this.getEnsName(decoded.receiver),
+      ]);
+
+      return buildChainPayment(chainId, txHash, decoded, token, block.timestamp, { sender, receiver }, invoiceCurrency);
+    } catch (error) {
+      throw createHttpError(
+        StatusCodes.BAD_GATEWAY,
+        `Failed to read payment details from chain: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async getTokenMetadata(chainId: number, token: Address): Promise<TokenMetadata> {
+    if (isAddressEqual(token, NATIVE_TOKEN_ADDRESS)) {
+      const nativeCurrency = this.getClient(chainId).chain?.nativeCurrency;
+      return { symbol: nativeCurrency?.symbol ?? 'ETH', decimals: nativeCurrency?.decimals ?? 18 };
+    }
+
+    const cacheKey = `${chainId}:${token.toLowerCase()}`;
+    const cached = this.tokenMetadata.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const client = this.getClient(chainId);
+    const [symbol, decimals] = await Promise.all([
+      client.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+      client.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+    ]);
+
+    const metadata = { symbol, decimals };
+    this.tokenMetadata.set(cacheKey, metadata);
+    return metadata;
+  }
+
+  /**
+   * Resolves the ENS primary name, which taps are matched on; empty when mainnet is not configured
+   */
+  private async getEnsName(address: Address): Promise<string> {
+    if (!this.options.rpcUrls[ENS_CHAIN_ID]) {
+      return '';
+    }
+
+    return (await this.getClient(ENS_CHAIN_ID).getEnsName({ address })) ?? '';
+  }
+
+  private getClient(chainId: number): PublicClient {
+    let client = this.clients.get(chainId);
+
+    if (!client) {
+      const chain = Object.values(chains).find((candidate: Chain) => candidate.id === chainId);
+      client = createPublicClient({
+        chain,
+        transport: http(this.options.rpcUrls[chainId], { timeout: this.options.timeout }),
+      }) as PublicClient;
+      this.clients.set(chainId, client);
+    }
+
+    return client;
+  }
+}
@@ -0,0 +1,42 @@
+import { HttpError } from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { Hex } from 'viem';
+import { Logger } from '../../types/logger.js';
+import { PaymentLookupResult, PaymentSource } from '../../types/transaction.js';
+
+/**
+ * Looks payments up in a primary source and falls back to a secondary one when the primary is unavailable
+ *
+ * Only server-side failures (5xx, including an open circuit breaker) trigger the fallback. A pending
+ * or not found answer from the primary is a verdict about the payment and is returned as is.
+ */
+export class FallbackPaymentSource implements PaymentSource {
+  public readonly name: string;
+  private readonly primary: PaymentSource;
+  private readonly fallback: PaymentSource;
+
+  constructor(primary: PaymentSource, fallback: PaymentSource) {
+    this.primary = primary;
+    this.fallback = fallback;
+    this.name = `${primary.name}_with_${fallback.name}_fallback`;
+  }
+
+  public async lookupPayment(txHash: Hex, logger?: Logger, chainId?: number): Promise<PaymentLookupResult> {
+    try {
+      return await this.primary.lookupPayment(txHash, logger, chainId);
+    } catch (error) {
+      if (error instanceof HttpError && error.statusCode < StatusCodes.INTERNAL_SERVER_ERROR) {
+        throw error;
+      }
+
+      logger?.warn('Primary payment source failed, falling back', {
+        txHash,
+        primary: this.primary.name,
+        fallback: this.fallback.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      return await this.fallback.lookupPayment(txHash, logger, chainId);
+    }
+  }
+}
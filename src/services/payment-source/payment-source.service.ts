@@ -0,0 +1,36 @@
+import { config } from '../../config/index.js';
+import { PaymentSource } from '../../types/transaction.js';
+import { YodlIndexerClient } from '../transaction.service.js';
+import { ChainPaymentSource } from './chain-payment-source.service.js';
+import { FallbackPaymentSource } from './fallback-payment-source.service.js';
+
+// Singleton instance
+let sourceInstance: PaymentSource | null = null;
+
+/**
+ * Gets the payment source selected by the PAYMENT_SOURCE env variable
+ */
+export function getPaymentSource(): PaymentSource {
+  if (!sourceInstance) {
+    const createChainSource = () =>
+      new ChainPaymentSource({
+        rpcUrls: config.paymentSource.rpcUrls,
+        routers: config.paymentSource.routers,
+        tokenCurrencies: config.paymentSource.tokenCurrencies,
+        timeout: config.paymentSource.rpcTimeout,
+      });
+
+    switch (config.paymentSource.mode) {
+      case 'chain':
+        sourceInstance = createChainSource();
+        break;
+      case 'indexer_with_fallback':
+        sourceInstance = new FallbackPaymentSource(YodlIndexerClient.getInstance(), createChainSource());
+        break;
+      case 'indexer':
+      default:
+        sourceInstance = YodlIndexerClient.getInstance();
+    }
+  }
+  return sourceInstance;
+}
@@ -0,0 +1,379 @@
+import createHttpError, { HttpError } from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { config } from '../config/index.js';
+import { CurrencyConversion } from '../types/fx.js';
+import { Logger } from '../types/logger.js';
+import { PourPlan } from '../types/queue.js';
+import { Payment } from '../types/transaction.js';
+import { ParsedMemo, parseMemo } from '../utils/memo-parser.js';
+import { calculatePourPlan, scalePourPlan, selectPriceTier } from '../utils/pour.js';
+import { resolvePourTime } from '../utils/schedule.js';
+import { checkTokenRules } from '../utils/token-rules.js';
+import { convertCurrency } from './fx/fx-rate.service.js';
+import { PrometheusService } from './prometheus.service.js';
+import { getSelfVerificationService, VerificationResult } from './self/self-verification.service.js';
+
+export type ValidatedPayment = {
+  validMethod: ParsedMemo['tap'];
+  parsedMemo: ParsedMemo;
+  transaction: Payment;
+  pour: PourPlan;
+  conversion?: CurrencyConversion;
+  // Set when the pour is delayed, by the memo or the tap's schedule
+  scheduledAt?: Date;
+  // When the payment's webhook first arrived, set for payments verified after a delay
+  receivedAt?: Date;
+};
+
+/**
+ * Counts a rejected payment by reason and builds the error to throw for it
+ */
+function rejectPayment(reason: string, status: number, message?: string): HttpError {
+  PrometheusService.getInstance().recordValidationFailure(reason);
+  return message ? createHttpError(status, message) : createHttpError(status);
+}
+
+/**
+ * Validates an indexed payment against the beer tap configuration and determines the pour
+ *
+ * Shared by txValidationMiddleware and the pending verification worker, so payments
+ * that were not indexed yet when their webhook arrived go through the exact same checks.
+ *
+ * 1. Parses the transaction memo to select exactly one beer tap, plus optional quantity, tier and order reference
+ * 2. Checks that currency and receiver information match configuration
+ * 3. Checks the settled chain, token and token amount against the tap's optional token rules
+ * 4. Converts the invoice amount into the tap's currency when paid in one of its accepted currencies
+ * 5. Selects the price tier named in the memo, or the largest tier the invoice amount covers
+ * 6. Determines the pour plan (cups and cup size) based on the invoice amount and the tap's overpayment mode
+ * 7. Resolves when to pour, from the memo's `in:`/`at:` token or the tap's schedule
+ *
+ * @throws {HttpError} - 400 if memo is missing, matches no tap or is ambiguous between several taps
+ * @throws {HttpError} - 403 if the invoice currency is neither the tap's currency nor an accepted one
+ * @throws {HttpError} - 404 if receiver ENS name doesn't match configuration
+ * @throws {HttpError} - 402 if invoice amount doesn't match any valid beer amount
+ * @throws {HttpError} - 400 if the tap rejects overpayments and the invoice amount is above the price
+ * @throws {HttpError} - 400 if the requested pour time is further ahead than the tap allows
+ * @throws {HttpError} - 422 if the settled chain, token or token amount violates the tap's token rules
+ * @throws {HttpError} - 503 if the invoice currency needs converting and no FX rate is available
+ */
+export async function validatePayment(
+  transaction: Payment,
+  logger: Logger,
+  requestId?: string
+): Promise<ValidatedPayment> {
+  const validationStartTime = Date.now();
+  const { txHash, memo, invoiceCurrency, invoiceAmount, receiverEnsPrimaryName } = transaction;
+
+  logger.info('Validating transaction against beer tap configuration', {
+    requestId,
+    txHash,
+    senderAddress: transaction.senderAddress,
+    receiverAddress: transaction.receiverAddress,
+    receiverEnsPrimaryName,
+    invoiceAmount,
+    invoiceCurrency,
+    memo,
+    availableTaps: config.beerTaps.map(tap => ({
+      id: tap.id || 'unnamed',
+      transactionMemo: tap.transactionMemo,
+      transactionReceiverEns: tap.transactionReceiverEns,
+      transactionCurrency: tap.transactionCurrency,
+      prices: tap.prices,
+    })),
+  });
+
+  const parsedMemo = parseMemo(memo, receiverEnsPrimaryName);
+
+  if (parsedMemo.status !== 'matched') {
+    logger.error('No matching beer tap method found', {
+      requestId,
+      txHash,
+      memo,
+      reason: parsedMemo.status,
+      error: parsedMemo.error,
+      candidates: parsedMemo.candidates,
+      availableMemos: config.beerTaps.map(tap => tap.transactionMemo),
+    });
+    throw rejectPayment(
+      `memo_${parsedMemo.status}`,
+      StatusCodes.BAD_REQUEST,
+      parsedMemo.candidates.length > 0 ? `${parsedMemo.error}: ${parsedMemo.candidates.join(', ')}` : parsedMemo.error
+    );
+  }
+
+  const validMethod = parsedMemo.tap;
+
+  logger.info('Found matching beer tap method', {
+    requestId,
+    txHash,
+    tapId: parsedMemo.beerTapId,
+    transactionMemo: validMethod.transactionMemo,
+    matchedBy: parsedMemo.matchedBy,
+    quantity: parsedMemo.quantity,
+    orderReference: parsedMemo.orderReference,
+    priceTier: parsedMemo.priceTier?.memoSuffix,
+  });
+
+  const isForeignCurrency = invoiceCurrency !== validMethod.transactionCurrency;
+
+  if (isForeignCurrency && !validMethod.acceptedCurrencies.includes(invoiceCurrency)) {
+    logger.error('Invoice currency mismatch', {
+      requestId,
+      txHash,
+      invoiceCurrency,
+      expectedCurrency: validMethod.transactionCurrency,
+      acceptedCurrencies: validMethod.acceptedCurrencies,
+      tapId: validMethod.id || 'unnamed',
+    });
+    throw rejectPayment('currency_mismatch', StatusCodes.FORBIDDEN);
+  }
+
+  if (receiverEnsPrimaryName !== validMethod.transactionReceiverEns) {
+    logger.error('Receiver ENS name mismatch', {
+      requestId,
+      txHash,
+      receiverEnsPrimaryName,
+      expectedReceiverEns: validMethod.transactionReceiverEns,
+      tapId: validMethod.id || 'unnamed',
+    });
+    throw rejectPayment('receiver_mismatch', StatusCodes.NOT_FOUND);
+  }
+
+  if (validMethod.tokenRules) {
+    const violation = checkTokenRules(validMethod.tokenRules, transaction);
+
+    if (violation) {
+      logger.error('Token rule violation', {
+        requestId,
+        txHash,
+        reason: violation.reason,
+        detail: violation.message,
+        chainId: transaction.chainId,
+        destinationChainId: transaction.destinationChainId,
+        tokenOutSymbol: transaction.tokenOutSymbol,
+        tokenOutAddress: transaction.tokenOutAddress,
+        tokenOutAmountGross: transaction.tokenOutAmountGross,
+        tapId: validMethod.id || 'unnamed',
+      });
+      throw rejectPayment(
+        'token_rules',
+        StatusCodes.UNPROCESSABLE_ENTITY,
+        `Token validation failed: ${violation.reason}`
+      );
+    }
+  }
+
+  let conversion: CurrencyConversion | undefined;
+  let paidAmount = Number(invoiceAmount);
+
+  if (isForeignCurrency) {
+    try {
+      conversion = await convertCurrency(invoiceAmount, invoiceCurrency, validMethod.transactionCurrency);
+    } catch (error) {
+      logger.error('Currency conversion failed', {
+        requestId,
+        txHash,
+        invoiceCurrency,
+        targetCurrency: validMethod.transactionCurrency,
+        error: error instanceof Error ? error.message : String(error),
+        tapId: validMethod.id || 'unnamed',
+      });
+      throw rejectPayment('fx_unavailable', StatusCodes.SERVICE_UNAVAILABLE, 'Currency conversion unavailable');
+    }
+
+    paidAmount = Number(conversion.convertedAmount);
+
+    logger.info('Invoice amount converted', {
+      requestId,
+      txHash,
+      ...conversion,
+      fxTolerancePercent: validMethod.fxTolerancePercent,
+      tapId: validMethod.id || 'unnamed',
+    });
+  }
+
+  // A memo quantity such as "x3" splits the payment evenly across the requested cups
+  const requestedQuantity = parsedMemo.quantity ?? 1;
+  const amountPerCup = paidAmount / requestedQuantity;
+  // Converted payments may fall short of the price by the tap's tolerance to absorb rate drift,
+  // the pour and any overpayment are still worked out from the converted amount
+  const fxTolerancePercent = isForeignCurrency ? validMethod.fxTolerancePercent : 0;
+  const tier = selectPriceTier(validMethod, amountPerCup, parsedMemo.priceTier, fxTolerancePercent);
+
+  if (!tier) {
+    const requiredAmount = (
+      Number(parsedMemo.priceTier?.amount ?? validMethod.prices[0].amount) * requestedQuantity
+    ).toString();
+
+    logger.error('Invoice amount below required minimum', {
+      requestId,
+      txHash,
+      invoiceAmount,
+      convertedAmount: conversion?.convertedAmount,
+      requiredAmount,
+      requestedQuantity,
+      shortfall: Number(requiredAmount) - paidAmount,
+      tapId: validMethod.id || 'unnamed',
+    });
+    throw rejectPayment('underpayment', StatusCodes.PAYMENT_REQUIRED);
+  }
+
+  const cupPour = calculatePourPlan(validMethod, tier, amountPerCup);
+
+  if (!cupPour) {
+    logger.error('Overpayment rejected by beer tap configuration', {
+      requestId,
+      txHash,
+      invoiceAmount,
+      convertedAmount: conversion?.convertedAmount,
+      requiredAmount: tier.amount,
+      tapId: validMethod.id || 'unnamed',
+    });
+    throw rejectPayment('overpayment', StatusCodes.BAD_REQUEST, 'Overpayment not accepted for this beer tap');
+  }
+
+  const pour = scalePourPlan(validMethod, cupPour, requestedQuantity);
+
+  if (!pour) {
+    logger.error('Requested quantity exceeds beer tap maximum', {
+      requestId,
+      txHash,
+      quantity: cupPour.quantity * requestedQuantity,
+      maxCups: validMethod.overpayment.maxCups,
+      tapId: validMethod.id || 'unnamed',
+    });
+    throw rejectPayment(
+      'quantity_exceeded',
+      StatusCodes.BAD_REQUEST,
+      `Requested quantity exceeds the maximum of ${validMethod.overpayment.maxCups} cups`
+    );
+  }
+
+  const pourTime = resolvePourTime(validMethod, parsedMemo.schedule);
+
+  if ('error' in pourTime) {
+    logger.error('Requested pour time rejected', {
+      requestId,
+      txHash,
+      schedule: parsedMemo.schedule,
+      maxDelayMinutes: validMethod.schedule.maxDelayMinutes,
+      tapId: validMethod.id || 'unnamed',
+    });
+    throw rejectPayment('pour_time', StatusCodes.BAD_REQUEST, pourTime.error);
+  }
+
+  const scheduledAt = pourTime.scheduledAt ?? undefined;
+  const validationDuration = Date.now() - validationStartTime;
+
+  logger.info('Transaction validation completed successfully', {
+    requestId,
+    txHash,
+    tapId: validMethod.id || 'unnamed',
+    tierAmount: tier.amount,
+    quantity: pour.quantity,
+    cupSize: pour.cupSize,
+    scheduledAt,
+    validationDuration,
+  });
+
+  return {
+    validMethod,
+    parsedMemo,
+    transaction,
+    pour,
+    conversion,
+    scheduledAt,
+  };
+}
+
+/**
+ * Verifies wallet identity when required by the matched beer tap's configuration
+ *
+ * @returns {Object} - Contains the verification result when verification was required
+ * @throws {HttpError} - 401 if the wallet has no valid identity verification for the tap
+ * @throws {HttpError} - 500 if the verification status could not be checked
+ */
+export async function verifyWalletIdentity(
+  transaction: Payment,
+  parsedMemo: ParsedMemo,
+  logger: Logger
+): Promise<{ walletVerificationResult?: VerificationResult }> {
+  const verificationService = getSelfVerificationService();
+  const walletAddress = transaction.senderAddress;
+  const transactionMemo = transaction.memo;
+  const tapId = parsedMemo.tap.id || 'default';
+  const identityVerification = parsedMemo.tap.identityVerification;
+
+  // Check if identity verification is required for this tap
+  const isVerificationRequired = identityVerification?.enabled || false;
+
+  if (!isVerificationRequired) {
+    PrometheusService.getInstance().recordIdentityVerification('not_required');
+    logger.info('Identity verification not required for tap', {
+      tapId,
+      walletAddress,
+      txHash: transaction.txHash,
+      transactionMemo,
+    });
+    return {};
+  }
+
+  logger.info('Checking wallet identity verification', {
+    tapId,
+    walletAddress,
+    txHash: transaction.txHash,
+    transactionMemo,
+  });
+
+  try {
+    // Check verification status for this wallet and tap
+    const verificationStatus = await verificationService.getVerificationStatus(walletAddress, tapId);
+
+    if (!verificationStatus.isVerified) {
+      PrometheusService.getInstance().recordIdentityVerification('unverified');
+      logger.warn('Wallet identity verification required but not found or invalid', {
+        walletAddress,
+        tapId,
+        txHash: transaction.txHash,
+        transactionMemo,
+        error: verificationStatus.error,
+      });
+
+      throw createHttpError(
+        StatusCodes.UNAUTHORIZED,
+        verificationStatus.error || 'Identity verification required for this wallet address'
+      );
+    }
+
+    // Verification is valid
+    PrometheusService.getInstance().recordIdentityVerification('verified');
+    logger.info('Wallet identity verification passed', {
+      walletAddress,
+      tapId,
+      txHash: transaction.txHash,
+      transactionMemo,
+      verifiedAt: verificationStatus.result?.verifiedAt,
+      expiresAt: verificationStatus.result?.expiresAt,
+      nationality: verificationStatus.result?.nationality,
+    });
+
+    return {
+      walletVerificationResult: verificationStatus.result,
+    };
+  } catch (error) {
+    if (error instanceof Error && 'statusCode' in error) {
+      throw error;
+    }
+
+    PrometheusService.getInstance().recordIdentityVerification('error');
+    logger.error('Wallet identity verification check failed', {
+      walletAddress,
+      tapId,
+      txHash: transaction.txHash,
+      transactionMemo,
+      error,
+    });
+
+    throw createHttpError(StatusCodes.INTERNAL_SERVER_ERROR, 'Wallet identity verification check failed');
+  }
+}
@@ -0,0 +1,213 @@
+import { HttpError } from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { Hex } from 'viem';
+import { Logger } from '../types/logger.js';
+import { PaymentSource } from '../types/transaction.js';
+import { validatePayment, ValidatedPayment, verifyWalletIdentity } from './payment-validation.service.js';
+import { RedisService } from './redis.service.js';
+
+const PENDING_SET_KEY = 'pending-verification';
+const MAX_RECHECK_DELAY = 60000;
+
+// Re-checks run outside of any request, warnings go to console.error like the rest of the background jobs
+const workerLogger: Logger = {
+  info: (message, meta) => console.info(message, meta ?? ''),
+  warn: (message, meta) => console.error(message, meta ?? ''),
+  error: (message, meta) => console.error(message, meta ?? ''),
+};
+
+interface PendingVerificationRecord {
+  txHash: Hex;
+  chainId?: number;
+  requestId?: string;
+  attempts: number;
+  registeredAt: string;
+  nextCheckAt: string;
+}
+
+export type VerifiedPaymentHandler = (payment: ValidatedPayment, logger: Logger) => Promise<void>;
+
+/**
+ * Re-checks webhook payments that the payment source could not return yet
+ *
+ * Pending transactions are kept in a Redis sorted set scored by their next check time,
+ * so they survive restarts and are picked up by whichever instance polls first. Once the
+ * source returns the payment it goes through the same validation as a fresh webhook and
+ * is handed to the registered handler for queueing.
+ */
+export class PendingVerificationService {
+  private static instance: PendingVerificationService;
+  private redis: RedisService;
+  private paymentSource: PaymentSource;
+  private readonly checkInterval: number;
+  private readonly recordTtl: number;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isChecking = false;
+  private onVerified?: VerifiedPaymentHandler;
+
+  private constructor(redis: RedisService, paymentSource: PaymentSource, checkInterval: number, pendingGrace: number) {
+    this.redis = redis;
+    this.paymentSource = paymentSource;
+    this.checkInterval = checkInterval;
+    // Keep records well past the indexer grace window, after which lookups fail with 404 anyway
+    this.recordTtl = Math.ceil(pendingGrace / 1000) * 2 + Math.ceil(MAX_RECHECK_DELAY / 1000);
+  }
+
+  public static getInstance(
+    redis: RedisService,
+    paymentSource: PaymentSource,
+    checkInterval: number,
+    pendingGrace: number
+  ): PendingVerificationService {
+    if (!PendingVerificationService.instance) {
+      PendingVerificationService.instance = new PendingVerificationService(
+        redis,
+        paymentSource,
+        checkInterval,
+        pendingGrace
+      );
+    }
+    return PendingVerificationService.instance;
+  }
+
+  public start(onVerified: VerifiedPaymentHandler): void {
+    this.onVerified = onVerified;
+
+    if (this.intervalId) {
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      this.checkDuePayments().catch(error => {
+        console.error('Error checking pending verifications:', error);
+      });
+    }, this.checkInterval);
+  }
+
+  public stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Registers a transaction for background verification, keeping the existing schedule on repeat deliveries
+   */
+  public async register(txHash: Hex, chainId?: number, requestId?: string): Promise<void> {
+    const key = this.recordKey(txHash);
+    const now = Date.now();
+    const record: PendingVerificationRecord = {
+      txHash,
+      chainId,
+      requestId,
+      attempts: 0,
+      registeredAt: new Date(now).toISOString(),
+      nextCheckAt: new Date(now + this.checkInterval).toISOString(),
+    };
+
+    if (await this.redis.setIfNotExists(key, JSON.stringify(record), this.recordTtl)) {
+      await this.redis.zAdd(PENDING_SET_KEY, txHash, now + this.checkInterval);
+    }
+  }
+
+  public async isPending(txHash: string): Promise<boolean> {
+    return (await this.redis.get(this.recordKey(txHash))) !== null;
+  }
+
+  private async checkDuePayments(): Promise<void> {
+    if (this.isChecking || !this.redis.isReady()) {
+      return;
+    }
+
+    this.isChecking = true;
+
+    try {
+      const dueTxHashes = await this.redis.zRangeByScore(PENDING_SET_KEY, 0, Date.now());
+
+      for (const txHash of dueTxHashes) {
+        await this.checkPayment(txHash);
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async checkPayment(txHash: string): Promise<void> {
+    const rawRecord = await this.redis.get(this.recordKey(txHash));
+
+    if (!rawRecord) {
+      await this.redis.zRem(PENDING_SET_KEY, txHash);
+      return;
+    }
+
+    const record = JSON.parse(rawRecord) as PendingVerificationRecord;
+    const logContext = { txHash, requestId: record.requestId, attempts: record.attempts };
+
+    try {
+      const lookup = await this.paymentSource.lookupPayment(record.txHash, workerLogger, record.chainId);
+
+      if (lookup.status === 'pending') {
+        await this.reschedule(record);
+        return;
+      }
+
+      const validated = await validatePayment(lookup.payment, workerLogger, record.requestId);
+      await verifyWalletIdentity(lookup.payment, validated.parsedMemo, workerLogger);
+
+      await this.onVerified?.({ ...validated, receivedAt: new Date(record.registeredAt) }, workerLogger);
+      await this.remove(txHash);
+
+      console.info('Pending transaction verified and queued', logContext);
+    } catch (error) {
+      // Indexer outages and missing FX rates are transient, everything else is a final verdict on the payment
+      if (error instanceof HttpError && error.statusCode < StatusCodes.INTERNAL_SERVER_ERROR) {
+        console.error('Pending transaction failed verification, dropping it', {
+          ...logContext,
+          statusCode: error.statusCode,
+          error: error.message,
+        });
+        await this.remove(txHash);
+        return;
+      }
+
+      console.error('Pending transaction verification errored, will retry', {
+        ...logContext,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await this.reschedule(record);
+    }
+  }
+
+  private async reschedule(record: PendingVerificationRecord): Promise<void> {
+    if (Date.now() - new Date(record.registeredAt).getTime() > this.recordTtl * 1000) {
+      console.error('Pending transaction could not be verified in time, dropping it', { txHash: record.txHash });
+      await this.remove(record.txHash);
+      return;
+    }
+
+    const attempts = record.attempts + 1;
+    const delay = Math.min(this.checkInterval * Math.pow(2, attempts), MAX_RECHECK_DELAY);
+    const nextCheckAt = Date.now() + delay;
+    const updated: PendingVerificationRecord = {
+      ...record,
+      attempts,
+      nextCheckAt: new Date(nextCheckAt).toISOString(),
+    };
+
+    if (await this.redis.setIfExists(this.recordKey(record.txHash), JSON.stringify(updated), this.recordTtl)) {
+      await this.redis.zAdd(PENDING_SET_KEY, record.txHash, nextCheckAt);
+    } else {
+      await this.redis.zRem(PENDING_SET_KEY, record.txHash);
+    }
+  }
+
+  private async remove(txHash: string): Promise<void> {
+    await this.redis.zRem(PENDING_SET_KEY, txHash);
+    await this.redis.del(this.recordKey(txHash));
+  }
+
+  private recordKey(txHash: string): string {
+    return `${PENDING_SET_KEY}:${txHash.toLowerCase()}`;
+  }
+}
@@ -0,0 +1,206 @@
+import { TapDriverType } from '../types/driver.js';
+import { FailureReasonCode, QueueEvent, QueueStatus, StatusPollEvent } from '../types/queue.js';
+import { Registry } from '../utils/prometheus.js';
+import type { QueueService } from './queue/queue.service.js';
+import type { RedisService } from './redis.service.js';
+import type { ReplayProtectionService } from './replay-protection.service.js';
+import type { StatusManager } from './status.service.js';
+
+export type WebhookOutcome = 'queued' | 'duplicate' | 'pending_verification' | 'rejected' | 'error';
+
+export type IdentityVerificationResult = 'not_required' | 'verified' | 'unverified' | 'error';
+
+// Device calls take from tens of milliseconds up to the RPC timeout (s)
+const DEVICE_CALL_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Prometheus metrics of this instance, served on /metrics
+ *
+ * @description
+ * Counters are fed by the webhook middlewares, queue events and StatusManager polls as they
+ * happen. Queue depth, processing and dead-letter counts and Redis connectivity are read at
+ * scrape time instead, so they always match what is in Redis.
+ */
+export class PrometheusService {
+  private static instance: PrometheusService;
+  private registry = new Registry();
+  private queues = new Map<string, { queueName: string; queue: QueueService<unknown> }>();
+  private redis?: RedisService;
+
+  private webhookRequests = this.registry.counter(
+    'beer_tap_webhook_requests_total',
+    'Payment webhook requests by outcome and HTTP status'
+  );
+  private validationFailures = this.registry.counter(
+    'beer_tap_validation_failures_total',
+    'Payments rejected by validation, by reason'
+  );
+  private identityVerifications = this.registry.counter(
+    'beer_tap_identity_verifications_total',
+    'Wallet identity verification checks by result'
+  );
+  private queueDepth = this.registry.gauge('beer_tap_queue_depth', 'Items waiting in the queue of each beer tap');
+  private queueProcessing = this.registry.gauge(
+    'beer_tap_queue_processing',
+    'Items this instance is processing for each beer tap'
+  );
+  private queueDeadLetters = this.registry.gauge(
+    'beer_tap_queue_dead_letters',
+    'Items in the dead letter queue of each beer tap'
+  );
+  private queueItems = this.registry.counter(
+    'beer_tap_queue_items_total',
+    'Items finished by this instance, by beer tap and outcome'
+  );
+  private queueRetries = this.registry.counter(
+    'beer_tap_queue_retries_total',
+    'Failed items scheduled for another attempt, by beer tap and reason'
+  );
+  private queueDeadLettered = this.registry.counter(
+    'beer_tap_queue_dead_lettered_total',
+    'Items moved to the dead letter queue, by beer tap and reason'
+  );
+  private deviceCallDuration = this.registry.histogram(
+    'beer_tap_device_call_duration_seconds',
+    'Duration of calls to tap devices by driver and method',
+    DEVICE_CALL_DURATION_BUCKETS
+  );
+  private deviceCallErrors = this.registry.counter(
+    'beer_tap_device_call_errors_total',
+    'Failed calls to tap devices by driver and method'
+  );
+  private statusPolls = this.registry.counter(
+    'beer_tap_status_polls_total',
+    'Beer tap status reads from the device by beer tap and result'
+  );
+  private webhooksAccepted = this.registry.counter(
+    'beer_tap_webhook_accepted_total',
+    'Payment webhooks that were validated and queued, across all instances'
+  );
+  private webhookTopSender = this.registry.gauge(
+    'beer_tap_webhook_top_sender_accepted',
+    'Accepted payment webhooks of the busiest sender in the current hour, across all instances'
+  );
+  private webhookReplayRejections = this.registry.counter(
+    'beer_tap_webhook_replay_rejections_total',
+    'Webhooks refused by replay protection by reason, across all instances'
+  );
+  private redisUp = this.registry.gauge('beer_tap_redis_up', 'Whether the Redis connection is ready (1) or not (0)');
+
+  private constructor() {
+    this.registry.addCollector(() => this.collectQueueGauges());
+    this.registry.addCollector(async () => {
+      this.redisUp.set({}, this.redis?.isReady() ? 1 : 0);
+    });
+  }
+
+  public static getInstance(): PrometheusService {
+    if (!PrometheusService.instance) {
+      PrometheusService.instance = new PrometheusService();
+    }
+    return PrometheusService.instance;
+  }
+
+  public async render(): Promise<string> {
+    return await this.registry.render();
+  }
+
+  public setRedis(redis: RedisService): void {
+    this.redis = redis;
+  }
+
+  public recordWebhook(outcome: WebhookOutcome, status: number): void {
+    this.webhookRequests.inc({ outcome, status: status.toString() });
+  }
+
+  public recordValidationFailure(reason: string): void {
+    this.validationFailures.inc({ reason });
+  }
+
+  public recordIdentityVerification(result: IdentityVerificationResult): void {
+    this.identityVerifications.inc({ result });
+  }
+
+  public recordDeviceCall(driver: TapDriverType, method: string, durationMs: number, success: boolean): void {
+    this.deviceCallDuration.observe({ driver, method }, durationMs / 1000);
+    if (!success) {
+      this.deviceCallErrors.inc({ driver, method });
+    }
+  }
+
+  /**
+   * Counts the queue's finished, retried and dead-lettered items and reports its depth on every scrape
+   */
+  public observeQueue<T>(beerTapId: string, queueName: string, queue: QueueService<T>): void {
+    this.queues.set(beerTapId, { queueName, queue: queue as unknown as QueueService<unknown> });
+
+    queue.onQueueEvent((event: QueueEvent) => {
+      const reason = (event.data as { reasonCode?: FailureReasonCode } | undefined)?.reasonCode ?? 'unknown';
+
+      switch (event.type) {
+        case 'item_completed':
+          this.queueItems.inc({ beer_tap: beerTapId, outcome: 'completed' });
+          break;
+        case 'item_retry':
+          this.queueRetries.inc({ beer_tap: beerTapId, reason });
+          break;
+        case 'item_failed':
+          this.queueItems.inc({ beer_tap: beerTapId, outcome: 'failed' });
+          this.queueDeadLettered.inc({ beer_tap: beerTapId, reason });
+          break;
+      }
+    });
+  }
+
+  public observeStatusManager(statusManager: StatusManager): void {
+    statusManager.onStatusPoll((event: StatusPollEvent) => {
+      // Device states as lowercase names, e.g. ready, busy, keg_empty
+      const result = event.success ? QueueStatus[event.status].toLowerCase() : 'error';
+      this.statusPolls.inc({ beer_tap: event.beerTapId, result });
+      this.recordDeviceCall(event.driver, 'read_status', event.durationMs, event.success);
+    });
+  }
+
+  /**
+   * Reports the accepted webhooks and replay rejections, which are counted in Redis, on every scrape
+   *
+   * Sender addresses are customer wallets, so only the busiest sender's count is exported, not who it is.
+   */
+  public observeReplayProtection(replayProtection: ReplayProtectionService): void {
+    this.registry.addCollector(async () => {
+      if (!this.redis?.isReady()) {
+        return;
+      }
+
+      const [accepted, topSender, rejections] = await Promise.all([
+        replayProtection.getAcceptedCount(),
+        replayProtection.getTopSenderCount(),
+        replayProtection.getRejectionCounts(),
+      ]);
+
+      this.webhooksAccepted.set({}, accepted);
+      this.webhookTopSender.set({}, topSender);
+      for (const [reason, count] of Object.entries(rejections)) {
+        this.webhookReplayRejections.set({ reason }, count);
+      }
+    });
+  }
+
+  private async collectQueueGauges(): Promise<void> {
+    if (!this.redis?.isReady()) {
+      return;
+    }
+
+    for (const [beerTapId, { queueName, queue }] of this.queues) {
+      const labels = { beer_tap: beerTapId };
+      const [depth, deadLetters] = await Promise.all([
+        queue.getQueueLength(),
+        this.redis.getDeadLetterCount(queueName),
+      ]);
+
+      this.queueDepth.set(labels, depth);
+      this.queueProcessing.set(labels, queue.getProcessingCount());
+      this.queueDeadLetters.set(labels, deadLetters);
+    }
+  }
+}
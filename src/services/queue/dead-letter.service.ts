@@ -0,0 +1,277 @@
+import { randomUUID } from 'crypto';
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { config, getBeerTapId } from '../../config/index.js';
+import {
+  BeerTapQueueItem,
+  DeadLetterAction,
+  DeadLetterAuditEntry,
+  DeadLetterResolution,
+  QueueItem,
+  StoredQueueItem,
+} from '../../types/queue.js';
+import { IdempotencyService } from '../idempotency.service.js';
+import { RedisService } from '../redis.service.js';
+
+const AUDIT_KEY_PREFIX = 'audit:dead-letter';
+const AUDIT_MAX_ENTRIES = 5000;
+
+type DeadLetterItem = QueueItem<BeerTapQueueItem>;
+
+/**
+ * Operator tooling for dead-lettered beer tap items
+ *
+ * Items that exhausted their attempts sit in `beer-tap:<id>:dead` until an operator requeues them,
+ * settles them outside the queue (refunded, or served by hand) or purges them. Every change is
+ * written to a per-tap audit trail in Redis together with the items as they were before.
+ *
+ * Requeueing reopens the payment's idempotency ledger entry, which is otherwise terminal once
+ * dead-lettered and would make the processor skip the item without pouring.
+ */
+export class DeadLetterService {
+  private static instance: DeadLetterService;
+  private redis: RedisService;
+  private idempotency: IdempotencyService;
+  private readonly beerTapIds: Set<string>;
+  private requeueCallback?: (beerTapId: string) => void;
+
+  private constructor(redis: RedisService, idempotency: IdempotencyService, beerTapIds: string[]) {
+    this.redis = redis;
+    this.idempotency = idempotency;
+    this.beerTapIds = new Set(beerTapIds);
+  }
+
+  public static getInstance(): DeadLetterService {
+    if (!DeadLetterService.instance) {
+      const redis = RedisService.getInstance(config.redis.url);
+      DeadLetterService.instance = new DeadLetterService(
+        redis,
+        IdempotencyService.getInstance(redis, config.idempotency.ttl),
+        config.beerTaps.map(tap => getBeerTapId(tap))
+      );
+    }
+    return DeadLetterService.instance;
+  }
+
+  /**
+   * Called with the tap's id whenever items were put back on its queue
+   */
+  public setRequeueCallback(callback: (beerTapId: string) => void): void {
+    this.requeueCallback = callback;
+  }
+
+  /**
+   * @throws {HttpError} - 404 if the beer tap is unknown
+   */
+  public async list(beerTapId: string, offset = 0, limit = 50): Promise<{ total: number; items: DeadLetterItem[] }> {
+    const entries = await this.getEntries(beerTapId);
+
+    return {
+      total: entries.length,
+      items: entries.slice(offset, offset + limit).map(entry => entry.item),
+    };
+  }
+
+  /**
+   * @throws {HttpError} - 404 if the beer tap or item is unknown
+   */
+  public async get(beerTapId: string, itemId: string): Promise<DeadLetterItem> {
+    return (await this.findEntry(beerTapId, itemId)).item;
+  }
+
+  /**
+   * Puts one item back at the end of its tap's queue with its attempts reset
+   *
+   * @throws {HttpError} - 404 if the beer tap or item is unknown
+   * @throws {HttpError} - 409 if the item left the dead letter queue in the meantime
+   */
+  public async requeue(beerTapId: string, itemId: string, actor: string, note?: string): Promise<DeadLetterItem> {
+    const entry = await this.findEntry(beerTapId, itemId);
+    const requeued = await this.requeueEntry(beerTapId, entry);
+
+    if (!requeued) {
+      throw createHttpError(StatusCodes.CONFLICT, 'Item is no longer dead-lettered');
+    }
+
+    await this.audit({ action: 'requeue', beerTapId, actor, note, items: [entry.item] });
+    this.requeueCallback?.(beerTapId);
+
+    return requeued;
+  }
+
+  /**
+   * Puts every dead-lettered item of a tap back on its queue, skipping items another operator handled meanwhile
+   *
+   * @throws {HttpError} - 404 if the beer tap is unknown
+   */
+  public async requeueAll(beerTapId: string, actor: string, note?: string): Promise<DeadLetterItem[]> {
+    const requeued: DeadLetterItem[] = [];
+    const originals: DeadLetterItem[] = [];
+
+    for (const entry of await this.getEntries(beerTapId)) {
+      const item = await this.requeueEntry(beerTapId, entry);
+      if (item) {
+        requeued.push(item);
+        originals.push(entry.item);
+      }
+    }
+
+    if (requeued.length > 0) {
+      await this.audit({ action: 'requeue_all', beerTapId, actor, note, items: originals });
+      this.requeueCallback?.(beerTapId);
+    }
+
+    return requeued;
+  }
+
+  /**
+   * Records that the payment behind an item was settled by hand and takes the item off the dead letter queue
+   *
+   * @throws {HttpError} - 404 if the beer tap or item is unknown
+   * @throws {HttpError} - 409 if the item left the dead letter queue in the meantime
+   */
+  public async resolve(
+    beerTapId: string,
+    itemId: string,
+    resolution: DeadLetterResolution,
+    actor: string,
+    note?: string
+  ): Promise<DeadLetterItem> {
+    const entry = await this.findEntry(beerTapId, itemId);
+
+    if (!(await this.redis.removeDeadLetterItem(this.getQueueName(beerTapId), entry.raw))) {
+      throw createHttpError(StatusCodes.CONFLICT, 'Item is no longer dead-lettered');
+    }
+
+    const { transactionHash, paymentIndex } = entry.item.data;
+    await this.idempotency.resolve(transactionHash, paymentIndex, resolution);
+
+    await this.audit({ action: 'resolve', beerTapId, actor, note, resolution, items: [entry.item] });
+
+    return entry.item;
+  }
+
+  /**
+   * Drops every dead-lettered item of a tap, they remain readable in the audit trail
+   *
+   * @throws {HttpError} - 404 if the beer tap is unknown
+   */
+  public async purge(beerTapId: string, actor: string, note?: string): Promise<DeadLetterItem[]> {
+    this.assertKnownTap(beerTapId);
+
+    const purged = await this.redis.purgeDeadLetter<BeerTapQueueItem>(this.getQueueName(beerTapId));
+
+    if (purged.length > 0) {
+      await this.audit({ action: 'purge', beerTapId, actor, note, items: purged });
+    }
+
+    return purged;
+  }
+
+  /**
+   * @returns The tap's audit entries, newest first
+   * @throws {HttpError} - 404 if the beer tap is unknown
+   */
+  public async getAuditTrail(beerTapId: string, offset = 0, limit = 50): Promise<DeadLetterAuditEntry[]> {
+    this.assertKnownTap(beerTapId);
+
+    const entries = await this.redis.lRange(this.getAuditKey(beerTapId), offset, offset + limit - 1);
+
+    return entries.map(raw => {
+      const entry = JSON.parse(raw) as DeadLetterAuditEntry;
+      entry.timestamp = new Date(entry.timestamp);
+      entry.items = entry.items.map(item => ({
+        ...item,
+        createdAt: new Date(item.createdAt),
+        scheduledAt: new Date(item.scheduledAt),
+        lastAttemptAt: item.lastAttemptAt ? new Date(item.lastAttemptAt) : undefined,
+      }));
+      return entry;
+    });
+  }
+
+  /**
+   * @returns The requeued item, or null if it was no longer dead-lettered
+   */
+  private async requeueEntry(
+    beerTapId: string,
+    entry: StoredQueueItem<BeerTapQueueItem>
+  ): Promise<DeadLetterItem | null> {
+    const { transactionHash, paymentIndex } = entry.item.data;
+    const item: DeadLetterItem = {
+      ...entry.item,
+      attempts: 0,
+      scheduledAt: new Date(),
+      lastRetryDelay: undefined,
+      deadLetterReason: undefined,
+    };
+
+    // Reopen the ledger first, a consumer picking the item up before that would skip it as already settled
+    const reopened = await this.idempotency.reopen(transactionHash, paymentIndex);
+
+    if (!(await this.redis.requeueDeadLetterItem(this.getQueueName(beerTapId), entry.raw, item))) {
+      if (reopened) {
+        await this.idempotency.transition(transactionHash, paymentIndex, 'dead_lettered');
+      }
+      return null;
+    }
+
+    return item;
+  }
+
+  private async findEntry(beerTapId: string, itemId: string): Promise<StoredQueueItem<BeerTapQueueItem>> {
+    const entry = (await this.getEntries(beerTapId)).find(candidate => candidate.item.id === itemId);
+
+    if (!entry) {
+      throw createHttpError(StatusCodes.NOT_FOUND, 'Dead-lettered item not found');
+    }
+
+    return entry;
+  }
+
+  private async getEntries(beerTapId: string): Promise<StoredQueueItem<BeerTapQueueItem>[]> {
+    this.assertKnownTap(beerTapId);
+    return await this.redis.getDeadLetterItems<BeerTapQueueItem>(this.getQueueName(beerTapId));
+  }
+
+  private async audit(entry: {
+    action: DeadLetterAction;
+    beerTapId: string;
+    actor: string;
+    note?: string;
+    resolution?: DeadLetterResolution;
+    items: DeadLetterItem[];
+  }): Promise<void> {
+    const auditEntry: DeadLetterAuditEntry = {
+      id: randomUUID(),
+      ...entry,
+      itemIds: entry.items.map(item => item.id),
+      timestamp: new Date(),
+    };
+
+    await this.redis.lPush(this.getAuditKey(entry.beerTapId), JSON.stringify(auditEntry), AUDIT_MAX_ENTRIES);
+
+    console.info('Dead letter queue changed', {
+      auditId: auditEntry.id,
+      action: auditEntry.action,
+      beerTapId: auditEntry.beerTapId,
+      actor: auditEntry.actor,
+      itemIds: auditEntry.itemIds,
+      resolution: auditEntry.resolution,
+    });
+  }
+
+  private assertKnownTap(beerTapId: string): void {
+    if (!this.beerTapIds.has(beerTapId)) {
+      throw createHttpError(StatusCodes.NOT_FOUND, `Beer tap ${beerTapId} not found`);
+    }
+  }
+
+  private getQueueName(beerTapId: string): string {
+    return `beer-tap:${beerTapId}`;
+  }
+
+  private getAuditKey(beerTapId: string): string {
+    return `${AUDIT_KEY_PREFIX}:${beerTapId}`;
+  }
+}
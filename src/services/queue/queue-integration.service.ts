@@ -1,19 +1,36 @@
 import { EventEmitter } from 'events';
 import { config as appConfig } from '../../config/index.js';
+import { TapDriver, TapDriverReport } from '../../types/driver.js';
 import {
   BeerTapQueueItem,
+  BeerTapQueueState,
+  BeerTapStatusOverview,
+  FailureReasonCode,
+  PriorityPolicy,
   QueueConfig,
   QueueEvent,
   QueueItem,
+  QueuePriority,
+  QueueProcessingContext,
   QueueProcessingResult,
   QueueStatus,
   StatusChangeEvent,
+  TapLockInfo,
+  TapMetrics,
+  WebhookOrder,
+  WebhookTransactionResult,
 } from '../../types/queue.js';
 import { Payment } from '../../types/transaction.js';
+import { canTakeOverPours, getStatusReaction } from '../../utils/device-state.js';
+import { classifyFailure, retryable, terminal } from '../../utils/failure-classification.js';
+import { getWalletPriority } from '../../utils/priority-lanes.js';
+import { IdempotencyService } from '../idempotency.service.js';
+import { PrometheusService } from '../prometheus.service.js';
 import { RedisService } from '../redis.service.js';
 import { StatusManager } from '../status.service.js';
-import { triggerBeerTap } from '../thingsboard/thingsboard-robust.service.js';
+import { QueueMetricsService } from './queue-metrics.service.js';
 import { QueueService } from './queue.service.js';
+import { TapLockService } from './tap-lock.service.js';
 
 interface BeerTapConfig {
   id: string;
@@ -21,15 +38,24 @@ interface BeerTapConfig {
   transactionMemo: string;
   transactionCurrency: string;
   transactionAmount: string;
-  thingsBoardDeviceId: string;
+  thingsBoardDeviceId?: string;
   thingsBoardCupSize: number;
   thingsBoardServerUrl: string;
+  driver: TapDriver;
+  priority?: PriorityPolicy;
+  queue: QueueConfig;
+  fallbackTapIds?: string[];
 }
 
 export class QueueIntegrationService extends EventEmitter {
   private static instance: QueueIntegrationService;
   private redis: RedisService;
   private statusManager: StatusManager;
+  private idempotency: IdempotencyService;
+  private tapLocks: TapLockService;
+  private metrics: QueueMetricsService;
+  private prometheus: PrometheusService;
+  private lockRefreshInterval: NodeJS.Timeout | null = null;
   private beerTapQueues = new Map<string, QueueService<BeerTapQueueItem>>();
   private beerTapConfigs = new Map<string, BeerTapConfig>();
   private isInitialized = false;
@@ -39,6 +65,10 @@ export class QueueIntegrationService extends EventEmitter {
     super();
     this.redis = redis;
     this.statusManager = statusManager;
+    this.idempotency = IdempotencyService.getInstance(redis, appConfig.idempotency.ttl);
+    this.metrics = QueueMetricsService.getInstance(redis);
+    this.prometheus = PrometheusService.getInstance();
+    this.tapLocks = TapLockService.getInstance(redis, appConfig.instanceId, appConfig.queue.tapLockTtl);
   }
 
   public static getInstance(redis: RedisService, statusManager: StatusManager): QueueIntegrationService {
@@ -57,40 +87,34 @@ export class QueueIntegrationService extends EventEmitter {
       this.beerTapConfigs.set(config.id, config);
     }
 
-    await this.initializeStatusManager();
+    this.initializeStatusManager();
 
     await this.initializeBeerTapQueues();
 
+    await this.startTapLockRefresh();
+
     this.setupEventHandlers();
 
     this.isInitialized = true;
   }
 
-  private async initializeStatusManager(): Promise<void> {
-    const statusManagerPrototype = Object.getPrototypeOf(this.statusManager);
-    statusManagerPrototype.getBeerTapConfigs = () => {
-      return Array.from(this.beerTapConfigs.values()).map(config => ({
-        id: config.id,
-        deviceId: config.thingsBoardDeviceId,
-        serverUrl: config.thingsBoardServerUrl,
-      }));
-    };
+  private initializeStatusManager(): void {
+    this.statusManager.registerBeerTaps(
+      Array.from(this.beerTapConfigs.values()).map(config => ({ beerTapId: config.id, driver: config.driver }))
+    );
+    this.statusManager.setQueueStateProvider(beerTapId => this.getBeerTapQueueState(beerTapId));
   }
 
   private async initializeBeerTapQueues(): Promise<void> {
-    const queueConfig: Partial<QueueConfig> = {
-      maxAttempts: 3,
-      baseDelay: 5000,
-      maxDelay: 30000,
-      concurrency: 1,
-      statusPollingInterval: 5000,
-      deadLetterQueueEnabled: true,
-    };
-
-    for (const beerTapId of this.beerTapConfigs.keys()) {
-      const queueName = `beer-tap:${beerTapId}`;
+    for (const [beerTapId, config] of this.beerTapConfigs) {
+      const queueName = this.getQueueName(beerTapId);
       const processor = this.createBeerTapProcessor(beerTapId);
-      const queue = new QueueService<BeerTapQueueItem>(queueName, this.redis, queueConfig, processor);
+      const queue = new QueueService<BeerTapQueueItem>(queueName, this.redis, config.queue, processor);
+
+      // Only the instance holding the tap's lock takes items off its queue
+      queue.setConsumptionGuard(() => this.tapLocks.getHeldToken(beerTapId) !== undefined);
+
+      this.prometheus.observeQueue(beerTapId, queueName, queue);
 
       await queue.init();
       this.beerTapQueues.set(beerTapId, queue);
@@ -101,8 +125,157 @@ export class QueueIntegrationService extends EventEmitter {
     }
   }
 
+  private async startTapLockRefresh(): Promise<void> {
+    await this.refreshTapLocks();
+
+    // Renew well within the TTL so a healthy holder never loses its locks
+    this.lockRefreshInterval = setInterval(
+      () => {
+        this.refreshTapLocks().catch(error => {
+          console.error('Error refreshing beer tap locks:', error);
+        });
+      },
+      Math.floor(this.tapLocks.getTtl() / 3)
+    );
+  }
+
+  private async refreshTapLocks(): Promise<void> {
+    for (const beerTapId of this.beerTapConfigs.keys()) {
+      const previousToken = this.tapLocks.getHeldToken(beerTapId);
+      let token: number | null;
+
+      try {
+        token = await this.tapLocks.acquire(beerTapId);
+      } catch (error) {
+        console.error(`Failed to refresh lock for beer tap ${beerTapId}:`, error);
+        continue;
+      }
+
+      if (token !== null && token !== previousToken) {
+        console.info('Acquired beer tap lock', { beerTapId, owner: this.tapLocks.getOwner(), fencingToken: token });
+        this.emit('tapLockAcquired', { beerTapId, fencingToken: token, timestamp: new Date() });
+
+        // Take over any backlog right away instead of waiting for the next wakeup
+        this.beerTapQueues.get(beerTapId)?.wake();
+      } else if (token === null && previousToken !== undefined) {
+        const lock = await this.tapLocks.getLockInfo(beerTapId);
+        console.error('Lost beer tap lock', {
+          beerTapId,
+          owner: this.tapLocks.getOwner(),
+          fencingToken: previousToken,
+          newOwner: lock.owner,
+        });
+        this.emit('tapLockLost', { beerTapId, fencingToken: previousToken, timestamp: new Date() });
+      }
+    }
+  }
+
+  private async triggerTap(driver: TapDriver, cupSize: number): Promise<void> {
+    const callStartTime = Date.now();
+
+    try {
+      await driver.trigger(cupSize);
+      this.prometheus.recordDeviceCall(driver.type, 'trigger', Date.now() - callStartTime, true);
+    } catch (error) {
+      this.prometheus.recordDeviceCall(driver.type, 'trigger', Date.now() - callStartTime, false);
+      throw error;
+    }
+  }
+
+  /**
+   * Records how long the customer waited for their first cup, from payment or, for a delayed pour, its due time
+   */
+  private async recordTimeToPour(beerTapId: string, task: BeerTapQueueItem): Promise<void> {
+    // Dates in queued items come back from Redis as strings
+    const receivedAt = new Date(task.receivedAt ?? task.timestamp).getTime();
+    const waitStartedAt = task.pourAt ? Math.max(receivedAt, new Date(task.pourAt).getTime()) : receivedAt;
+
+    try {
+      await this.metrics.recordTimeToPour(this.getQueueName(beerTapId), Date.now() - waitStartedAt);
+    } catch (error) {
+      console.error(`Failed to record time to pour for beer tap ${beerTapId}:`, error);
+    }
+  }
+
+  /**
+   * Picks the first fallback tap of a tap that can take over its pours, never one the item was already handed over from
+   *
+   * The fallback's status is read rather than assumed, a tap that can't be read doesn't take over.
+   */
+  private async findFallbackTap(config: BeerTapConfig, task: BeerTapQueueItem): Promise<string | undefined> {
+    const triedTapIds = [...(task.reroutedFrom ?? []), config.id];
+
+    for (const fallbackTapId of config.fallbackTapIds ?? []) {
+      if (triedTapIds.includes(fallbackTapId) || !this.beerTapQueues.has(fallbackTapId)) {
+        continue;
+      }
+
+      const status = await this.statusManager.readBeerTapStatus(fallbackTapId);
+      if (status !== null && canTakeOverPours(status)) {
+        return fallbackTapId;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Hands an item over to another tap, with the cups still to pour
+   *
+   * The handover is checkpointed before the item is queued on the other tap, so an item
+   * recovered after a crash finishes the handover instead of pouring. The ledger entry then
+   * follows the new item, which is why the completion of this one doesn't complete the payment.
+   */
+  private async rerouteItem(
+    beerTapId: string,
+    fallbackTapId: string,
+    item: QueueItem<BeerTapQueueItem>,
+    context: QueueProcessingContext,
+    startTime: number
+  ): Promise<QueueProcessingResult> {
+    const { transactionHash, paymentIndex } = item.data;
+
+    item.data.reroutedTo = fallbackTapId;
+    await context.checkpoint();
+
+    const ledgerRecord = await this.idempotency.get(transactionHash, paymentIndex);
+    if (ledgerRecord?.beerTapId !== fallbackTapId) {
+      const itemId = await this.enqueueBeerTapTask(
+        fallbackTapId,
+        { ...item.data, reroutedTo: undefined, reroutedFrom: [...(item.data.reroutedFrom ?? []), beerTapId] },
+        item.priority
+      );
+      await this.idempotency.transition(transactionHash, paymentIndex, 'queued', { beerTapId: fallbackTapId, itemId });
+
+      console.info('Rerouted beer tap item to fallback tap', {
+        beerTapId,
+        fallbackTapId,
+        itemId: item.id,
+        newItemId: itemId,
+        transactionHash,
+      });
+    }
+
+    this.emit('beerTapRerouted', {
+      beerTapId,
+      fallbackTapId,
+      itemId: item.id,
+      timestamp: new Date(),
+    });
+
+    return {
+      success: true,
+      itemId: item.id,
+      processingTime: Date.now() - startTime,
+      shouldRetry: false,
+    };
+  }
+
   private createBeerTapProcessor(beerTapId: string) {
-    return async (item: QueueItem<BeerTapQueueItem>): Promise<QueueProcessingResult> => {
+    return async (
+      item: QueueItem<BeerTapQueueItem>,
+      context: QueueProcessingContext
+    ): Promise<QueueProcessingResult> => {
       const startTime = Date.now();
       const config = this.beerTapConfigs.get(beerTapId);
 
@@ -113,49 +286,131 @@ export class QueueIntegrationService extends EventEmitter {
           processingTime: Date.now() - startTime,
           error: `No configuration found for beer tap: ${beerTapId}`,
           shouldRetry: false,
+          ...terminal('tap_misconfigured'),
         };
       }
 
+      const { transactionHash, paymentIndex } = item.data;
+      const ledgerRecord = await this.idempotency.get(transactionHash, paymentIndex);
+
+      if (ledgerRecord && this.idempotency.isTerminal(ledgerRecord.status)) {
+        // Another delivery of the same payment already reached a final state, never pour twice
+        return {
+          success: true,
+          itemId: item.id,
+          processingTime: Date.now() - startTime,
+          shouldRetry: false,
+        };
+      }
+
+      // A handover interrupted by a crash is finished, never poured here as well
+      if (item.data.reroutedTo) {
+        return await this.rerouteItem(beerTapId, item.data.reroutedTo, item, context, startTime);
+      }
+
+      await this.idempotency.transition(transactionHash, paymentIndex, 'processing', { itemId: item.id });
+
       try {
-        // Wait for beer tap to be ready with a reasonable timeout
-        const isReady = await this.statusManager.waitForBeerTapReady(
-          beerTapId,
-          config.thingsBoardDeviceId,
-          config.thingsBoardServerUrl,
-          60000
-        );
+        const quantity = item.data.quantity ?? 1;
+        const cupSize = item.data.cupSize ?? config.thingsBoardCupSize;
+
+        const fencingToken = this.tapLocks.getHeldToken(beerTapId);
+
+        // Resume after the cups already poured by an earlier attempt so a retry never over-pours
+        for (let cup = item.data.cupsPoured ?? 0; cup < quantity; cup++) {
+          // Wait for beer tap to be ready with a reasonable timeout
+          const deviceStatus = await this.statusManager.waitForBeerTapReady(beerTapId, 60000);
+
+          if (deviceStatus !== QueueStatus.READY) {
+            const progress = `cup ${cup + 1} of ${quantity}`;
+            const failure = { success: false, itemId: item.id, processingTime: Date.now() - startTime };
+
+            switch (getStatusReaction(deviceStatus)) {
+              case 'reroute': {
+                const fallbackTapId = await this.findFallbackTap(config, item.data);
+                if (fallbackTapId) {
+                  return await this.rerouteItem(beerTapId, fallbackTapId, item, context, startTime);
+                }
+                return {
+                  ...failure,
+                  error: `Keg of beer tap ${beerTapId} is empty and no fallback tap is available (${progress})`,
+                  shouldRetry: false,
+                  ...terminal('keg_empty'),
+                };
+              }
+              case 'dead_letter':
+                return {
+                  ...failure,
+                  error: `Beer tap ${beerTapId} reports a flow fault (${progress})`,
+                  shouldRetry: false,
+                  ...terminal('flow_fault'),
+                };
+            }
+
+            if (deviceStatus === QueueStatus.OFFLINE) {
+              return {
+                ...failure,
+                error: `Beer tap ${beerTapId} is offline (${progress})`,
+                shouldRetry: true,
+                ...retryable('device_offline'),
+              };
+            }
+            if (deviceStatus === QueueStatus.MAINTENANCE) {
+              return {
+                ...failure,
+                error: `Beer tap ${beerTapId} is in maintenance (${progress})`,
+                shouldRetry: true,
+                ...retryable('tap_maintenance'),
+              };
+            }
+            return {
+              ...failure,
+              error: `Beer tap ${beerTapId} did not become ready within 60 seconds (${progress})`,
+              shouldRetry: true,
+              ...retryable('device_not_ready'),
+            };
+          }
 
-        if (!isReady) {
-          return {
-            success: false,
-            itemId: item.id,
-            processingTime: Date.now() - startTime,
-            error: `Beer tap ${beerTapId} did not become ready within 30 seconds`,
-            shouldRetry: true,
-          };
-        }
+          // Another instance may have taken over the tap while we waited, never trigger it concurrently
+          if (fencingToken === undefined || !(await this.tapLocks.isCurrent(beerTapId, fencingToken))) {
+            return {
+              success: false,
+              itemId: item.id,
+              processingTime: Date.now() - startTime,
+              error: `Lost lock on beer tap ${beerTapId} (fencing token ${fencingToken}) before cup ${cup + 1} of ${quantity}`,
+              shouldRetry: true,
+              ...retryable('lock_lost'),
+            };
+          }
 
-        // Trigger the beer tap
-        const triggerResponse = await triggerBeerTap(config.thingsBoardDeviceId, config.thingsBoardCupSize, {
-          serverUrl: appConfig.thingsBoard.serverUrl,
-          username: appConfig.thingsBoard.username!,
-          password: appConfig.thingsBoard.password!,
-          rpcTimeout: appConfig.thingsBoard.rpcTimeout,
-        });
+          // Trigger the beer tap, a failed trigger throws and is classified below
+          await this.triggerTap(config.driver, cupSize);
 
-        if (!triggerResponse.ok) {
-          throw new Error(`Failed to trigger beer tap: ${triggerResponse.status} ${triggerResponse.statusText}`);
-        }
+          if (cup === 0) {
+            await this.recordTimeToPour(beerTapId, item.data);
+          }
 
-        this.emit('beerTapTriggered', {
-          beerTapId,
-          itemId: item.id,
-          timestamp: new Date(),
-        });
+          item.data.cupsPoured = cup + 1;
+
+          // Record the poured cup so an item recovered after a crash doesn't pour it again
+          await context.checkpoint();
+
+          // The tap is pouring now, don't let a stale READY from the status cache start the next cup early
+          await this.statusManager.updateBeerTapStatus(beerTapId, QueueStatus.BUSY, cupSize);
 
-        // Wait a moment for the beer tap to start pouring, then return success
-        // The beer tap will become busy and then ready again on its own
-        await new Promise(resolve => setTimeout(resolve, 1000));
+          this.emit('beerTapTriggered', {
+            beerTapId,
+            itemId: item.id,
+            cup: cup + 1,
+            quantity,
+            cupSize,
+            timestamp: new Date(),
+          });
+
+          // Wait a moment for the beer tap to start pouring
+          // The beer tap will become busy and then ready again on its own
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
 
         return {
           success: true,
@@ -165,12 +420,14 @@ export class QueueIntegrationService extends EventEmitter {
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const classification = classifyFailure(error);
         // Note: console.error used here since this is in a processor callback without access to main logger
 
         this.emit('beerTapError', {
           beerTapId,
           itemId: item.id,
           error: errorMessage,
+          ...classification,
           timestamp: new Date(),
         });
 
@@ -179,7 +436,8 @@ export class QueueIntegrationService extends EventEmitter {
           itemId: item.id,
           processingTime: Date.now() - startTime,
           error: errorMessage,
-          shouldRetry: true,
+          shouldRetry: classification.failureClass === 'retryable',
+          ...classification,
         };
       }
     };
@@ -205,12 +463,26 @@ export class QueueIntegrationService extends EventEmitter {
       case 'item_failed':
         await this.handleItemFailed(beerTapId, event);
         break;
+      case 'item_retry':
+        await this.handleItemRetry(beerTapId, event);
+        break;
       default:
         this.emit('queueEvent', { beerTapId, ...event });
     }
   }
 
   private async handleItemCompleted(beerTapId: string, event: QueueEvent): Promise<void> {
+    const item = event.data as BeerTapQueueItem | undefined;
+    // A rerouted item is served by the tap it was handed over to
+    if (item?.reroutedTo) {
+      return;
+    }
+    if (item) {
+      await this.idempotency.transition(item.transactionHash, item.paymentIndex, 'completed');
+      // Store completed transaction hash for status checking (24 hour TTL)
+      await this.redis.setStatus(`completed:${item.transactionHash}`, 1, 86400);
+    }
+
     this.emit('beerTapCompleted', {
       beerTapId,
       itemId: event.itemId,
@@ -221,21 +493,43 @@ export class QueueIntegrationService extends EventEmitter {
   private async handleItemFailed(beerTapId: string, event: QueueEvent): Promise<void> {
     const attempts = (event.data as { attempts: number })?.attempts || 0;
     const errors = (event.data as { errors: string[] })?.errors || [];
+    const item = (event.data as { item?: BeerTapQueueItem })?.item;
+    const reasonCode = (event.data as { reasonCode?: FailureReasonCode })?.reasonCode;
+
+    if (item) {
+      await this.idempotency.transition(item.transactionHash, item.paymentIndex, 'dead_lettered');
+    }
 
     this.emit('beerTapFailed', {
       beerTapId,
       itemId: event.itemId,
       attempts,
       errors,
+      reasonCode,
       timestamp: new Date(),
     });
   }
 
+  private async handleItemRetry(beerTapId: string, event: QueueEvent): Promise<void> {
+    const item = (event.data as { item?: BeerTapQueueItem })?.item;
+
+    if (item) {
+      await this.idempotency.transition(item.transactionHash, item.paymentIndex, 'retrying');
+    }
+
+    this.emit('queueEvent', { beerTapId, ...event });
+  }
+
   private async handleStatusChange(event: StatusChangeEvent): Promise<void> {
     this.emit('statusChange', event);
   }
 
-  public async enqueueBeerTapTask(beerTapId: string, task: BeerTapQueueItem): Promise<string> {
+  public async enqueueBeerTapTask(
+    beerTapId: string,
+    task: BeerTapQueueItem,
+    priority = QueuePriority.NORMAL,
+    scheduledAt?: Date
+  ): Promise<string> {
     const queue = this.beerTapQueues.get(beerTapId);
     if (!queue) {
       throw new Error(`No queue found for beer tap: ${beerTapId}`);
@@ -245,7 +539,8 @@ export class QueueIntegrationService extends EventEmitter {
 
     return await queue.enqueue(taskWithBeerTapId, {
       beerTapId,
-      maxAttempts: 3,
+      priority,
+      scheduledAt,
     });
   }
 
@@ -258,27 +553,78 @@ export class QueueIntegrationService extends EventEmitter {
     return await queue.getQueueLength();
   }
 
+  public getQueueConfigs(): { beerTapId: string; config: QueueConfig }[] {
+    return Array.from(this.beerTapQueues.entries()).map(([beerTapId, queue]) => ({
+      beerTapId,
+      config: queue.getConfig(),
+    }));
+  }
+
+  public async getTapMetrics(): Promise<TapMetrics[]> {
+    return await Promise.all(
+      Array.from(this.beerTapQueues.entries()).map(async ([beerTapId, queue]) => {
+        const [queueLength, totals, windows] = await Promise.all([
+          queue.getQueueLength(),
+          this.metrics.getTotals(this.getQueueName(beerTapId)),
+          this.metrics.getWindows(this.getQueueName(beerTapId)),
+        ]);
+
+        return {
+          beerTapId,
+          queueLength,
+          processingItems: queue.getProcessingCount(),
+          lastProcessedAt: totals?.lastProcessedAt,
+          ...windows,
+        };
+      })
+    );
+  }
+
+  public async getTapLocks(): Promise<TapLockInfo[]> {
+    return await Promise.all(
+      Array.from(this.beerTapConfigs.keys()).map(beerTapId => this.tapLocks.getLockInfo(beerTapId))
+    );
+  }
+
   public async getBeerTapStatus(beerTapId: string): Promise<QueueStatus> {
     return await this.statusManager.getBeerTapStatus(beerTapId);
   }
 
   public async forceBeerTapStatusUpdate(beerTapId: string): Promise<QueueStatus> {
-    const config = this.beerTapConfigs.get(beerTapId);
-    if (!config) {
+    if (!this.beerTapConfigs.has(beerTapId)) {
       throw new Error(`No configuration found for beer tap: ${beerTapId}`);
     }
 
-    return await this.statusManager.forcePollBeerTapStatus(
-      beerTapId,
-      config.thingsBoardDeviceId,
-      config.thingsBoardServerUrl
-    );
+    return await this.statusManager.forcePollBeerTapStatus(beerTapId);
   }
 
-  public async getAllBeerTapStatuses(): Promise<Map<string, QueueStatus>> {
+  public async getAllBeerTapStatuses(): Promise<Map<string, BeerTapStatusOverview>> {
     return await this.statusManager.getAllBeerTapStatuses();
   }
 
+  // Items processing on any instance, the tap pours one at a time so the first is the one in flight
+  private async getBeerTapQueueState(beerTapId: string): Promise<BeerTapQueueState> {
+    const queue = this.beerTapQueues.get(beerTapId);
+    if (!queue) {
+      return { queueLength: 0 };
+    }
+
+    const queueName = this.getQueueName(beerTapId);
+    const [queueLength, [processingItem]] = await Promise.all([
+      queue.getQueueLength(),
+      this.redis.getProcessingItems<BeerTapQueueItem>(queueName),
+    ]);
+
+    return {
+      queueLength,
+      inFlightItem: processingItem && {
+        itemId: processingItem.id,
+        quantity: processingItem.data.quantity ?? 1,
+        cupsPoured: processingItem.data.cupsPoured ?? 0,
+      },
+    };
+  }
+
   public async getAllQueueLengths(): Promise<Map<string, number>> {
     const queueLengths = new Map<string, number>();
 
@@ -290,13 +636,24 @@ export class QueueIntegrationService extends EventEmitter {
     return queueLengths;
   }
 
+  public async getDriverHealth(): Promise<TapDriverReport[]> {
+    return await Promise.all(
+      Array.from(this.beerTapConfigs.values()).map(async config => ({
+        beerTapId: config.id,
+        driver: config.driver.describe(),
+        health: await config.driver.healthCheck(),
+      }))
+    );
+  }
+
   public getBeerTapConfigs(): Map<string, BeerTapConfig> {
     return new Map(this.beerTapConfigs);
   }
 
   public async findTransactionStatus(txHash: string): Promise<{
-    status: 'not_found' | 'queued' | 'processing' | 'completed' | 'failed';
+    status: 'not_found' | 'scheduled' | 'queued' | 'processing' | 'completed' | 'failed';
     queuePosition?: number;
+    scheduledAt?: Date;
     beerTapId?: string;
   }> {
     // First check if transaction was completed recently
@@ -309,21 +666,38 @@ export class QueueIntegrationService extends EventEmitter {
 
     // Search through all beer tap queues for the transaction
     for (const [beerTapId] of this.beerTapQueues) {
-      const queueName = `beer-tap:${beerTapId}`;
-
-      // Check the main queue
-      const queueLength = await this.redis.getQueueLength(queueName);
-      if (queueLength > 0) {
-        const items = await this.redis.peekQueue<BeerTapQueueItem>(queueName, queueLength);
-        for (let i = 0; i < items.length; i++) {
-          if (items[i].data.transactionHash === txHash) {
-            return {
-              status: 'queued',
-              queuePosition: i + 1,
-              beerTapId,
-            };
-          }
-        }
+      const queueName = this.getQueueName(beerTapId);
+
+      // Check the priority lanes, in the order the items will be poured
+      const items = await this.redis.getQueuedItems<BeerTapQueueItem>(queueName);
+      const position = items.findIndex(item => item.data.transactionHash === txHash);
+      if (position !== -1) {
+        return {
+          status: 'queued',
+          queuePosition: position + 1,
+          beerTapId,
+        };
+      }
+
+      // Check pours waiting for their scheduled time
+      const scheduledItem = (await this.redis.getScheduledItems<BeerTapQueueItem>(queueName)).find(
+        item => item.data.transactionHash === txHash
+      );
+      if (scheduledItem) {
+        return {
+          status: 'scheduled',
+          scheduledAt: scheduledItem.scheduledAt,
+          beerTapId,
+        };
+      }
+
+      // Check items being poured right now, or left behind by a crashed process awaiting recovery
+      const processingItems = await this.redis.getProcessingItems<BeerTapQueueItem>(queueName);
+      if (processingItems.some(item => item.data.transactionHash === txHash)) {
+        return {
+          status: 'processing',
+          beerTapId,
+        };
       }
 
       // Check retry queue
@@ -358,9 +732,14 @@ export class QueueIntegrationService extends EventEmitter {
     };
   }
 
-  public async processWebhookTransaction(transaction: Payment, logger?: any): Promise<void> {
+  public async processWebhookTransaction(
+    transaction: Payment,
+    order: WebhookOrder,
+    logger?: any
+  ): Promise<WebhookTransactionResult> {
     const startTime = Date.now();
-    
+    const { pour, conversion } = order;
+
     logger?.info('Processing webhook transaction in queue integration', {
       txHash: transaction.txHash,
       senderAddress: transaction.senderAddress,
@@ -368,21 +747,17 @@ export class QueueIntegrationService extends EventEmitter {
       invoiceAmount: transaction.invoiceAmount,
       invoiceCurrency: transaction.invoiceCurrency,
       memo: transaction.memo,
+      beerTapId: order.memo.beerTapId,
       availableTaps: Array.from(this.beerTapConfigs.keys()),
     });
 
-    const matchingConfig = Array.from(this.beerTapConfigs.values()).find(config => {
-      return (
-        config.transactionReceiverEns === transaction.receiverEnsPrimaryName &&
-        config.transactionMemo === transaction.memo &&
-        config.transactionCurrency === transaction.invoiceCurrency &&
-        Number(transaction.invoiceAmount) >= Number(config.transactionAmount)
-      );
-    });
+    // The tap comes from the same memo parse that txValidationMiddleware validated receiver, currency and amount against
+    const matchingConfig = this.beerTapConfigs.get(order.memo.beerTapId);
 
     if (!matchingConfig) {
       logger?.warn('No matching beer tap configuration found', {
         txHash: transaction.txHash,
+        beerTapId: order.memo.beerTapId,
         receiverEnsPrimaryName: transaction.receiverEnsPrimaryName,
         memo: transaction.memo,
         invoiceCurrency: transaction.invoiceCurrency,
@@ -395,37 +770,62 @@ export class QueueIntegrationService extends EventEmitter {
           amount: config.transactionAmount,
         })),
       });
-      return;
+      return { duplicate: false };
     }
 
     logger?.info('Found matching beer tap configuration', {
       txHash: transaction.txHash,
       beerTapId: matchingConfig.id,
-      deviceId: matchingConfig.thingsBoardDeviceId,
-      cupSize: matchingConfig.thingsBoardCupSize,
+      driver: matchingConfig.driver.describe(),
+      quantity: pour.quantity,
+      cupSize: pour.cupSize,
     });
 
+    const claim = await this.idempotency.claim(transaction.txHash, transaction.paymentIndex, matchingConfig.id);
+
+    if (!claim.claimed) {
+      logger?.info('Duplicate webhook delivery ignored', {
+        txHash: transaction.txHash,
+        paymentIndex: transaction.paymentIndex,
+        beerTapId: claim.record.beerTapId,
+        status: claim.record.status,
+      });
+      return { duplicate: true, record: claim.record };
+    }
+
     const task: BeerTapQueueItem = {
       transactionHash: transaction.txHash,
+      paymentIndex: transaction.paymentIndex,
       beerTapId: matchingConfig.id,
       receiverEns: transaction.receiverEnsPrimaryName,
       memo: transaction.memo,
       currency: transaction.invoiceCurrency,
       amount: transaction.invoiceAmount,
+      quantity: pour.quantity,
+      cupSize: pour.cupSize,
+      orderReference: order.memo.orderReference,
+      conversion,
       timestamp: new Date(),
+      receivedAt: order.receivedAt ?? new Date(),
+      pourAt: order.scheduledAt,
     };
 
+    const priority = matchingConfig.priority
+      ? getWalletPriority(matchingConfig.priority.wallets, transaction.senderAddress, transaction.senderEnsPrimaryName)
+      : QueuePriority.NORMAL;
+
     try {
       const queueLengthBefore = await this.getBeerTapQueueLength(matchingConfig.id);
-      const itemId = await this.enqueueBeerTapTask(matchingConfig.id, task);
+      const itemId = await this.enqueueBeerTapTask(matchingConfig.id, task, priority, order.scheduledAt);
       const processingDuration = Date.now() - startTime;
 
       logger?.info('Transaction successfully enqueued for beer tap processing', {
         txHash: transaction.txHash,
         beerTapId: matchingConfig.id,
         itemId,
+        priority,
+        scheduledAt: order.scheduledAt,
         queueLengthBefore,
-        queuePosition: queueLengthBefore + 1,
         processingDuration,
       });
 
@@ -435,9 +835,14 @@ export class QueueIntegrationService extends EventEmitter {
         itemId,
         timestamp: new Date(),
       });
+
+      return { duplicate: false, record: { ...claim.record, itemId } };
     } catch (error) {
       const errorDuration = Date.now() - startTime;
-      
+
+      // Nothing was queued, let the next webhook delivery claim the payment again
+      await this.idempotency.release(transaction.txHash, transaction.paymentIndex);
+
       logger?.error('Failed to enqueue transaction for beer tap processing', {
         txHash: transaction.txHash,
         beerTapId: matchingConfig.id,
@@ -445,16 +850,26 @@ export class QueueIntegrationService extends EventEmitter {
         errorStack: error instanceof Error ? error.stack : undefined,
         errorDuration,
       });
-      
+
       throw error;
     }
   }
 
   public async destroy(): Promise<void> {
+    if (this.lockRefreshInterval) {
+      clearInterval(this.lockRefreshInterval);
+      this.lockRefreshInterval = null;
+    }
+
     for (const queue of this.beerTapQueues.values()) {
       await queue.destroy();
     }
 
+    // Hand the taps over right away instead of making other instances wait for the locks to expire
+    for (const beerTapId of this.beerTapConfigs.keys()) {
+      await this.tapLocks.release(beerTapId);
+    }
+
     this.beerTapQueues.clear();
     this.beerTapConfigs.clear();
     this.isInitialized = false;
@@ -464,6 +879,10 @@ export class QueueIntegrationService extends EventEmitter {
     this.hasItemsCallback = callback;
   }
 
+  private getQueueName(beerTapId: string): string {
+    return `beer-tap:${beerTapId}`;
+  }
+
   private async handleQueueStateChange(): Promise<void> {
     if (!this.hasItemsCallback) {
       return;
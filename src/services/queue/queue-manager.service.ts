@@ -1,7 +1,25 @@
-import { config } from '../../config/index.js';
+import { Hex } from 'viem';
+import { config, getBeerTapId, getBeerTapQueueConfig } from '../../config/index.js';
+import { TapDriverReport } from '../../types/driver.js';
+import { Logger } from '../../types/logger.js';
+import {
+  BeerTapStatusOverview,
+  IdempotencyStatus,
+  QueueConfig,
+  TapLockInfo,
+  TapMetrics,
+  WebhookOrder,
+} from '../../types/queue.js';
 import { Payment } from '../../types/transaction.js';
+import { ValidatedPayment } from '../payment-validation.service.js';
+import { getPaymentSource } from '../payment-source/payment-source.service.js';
+import { PendingVerificationService } from '../pending-verification.service.js';
+import { PrometheusService } from '../prometheus.service.js';
 import { RedisService } from '../redis.service.js';
+import { ReplayProtectionService } from '../replay-protection.service.js';
 import { StatusManager } from '../status.service.js';
+import { createTapDriver } from '../tap-driver/tap-driver.service.js';
+import { DeadLetterService } from './dead-letter.service.js';
 import { QueueIntegrationService } from './queue-integration.service.js';
 
 export class QueueManagerService {
@@ -9,6 +27,7 @@ export class QueueManagerService {
   private readonly redis: RedisService;
   private readonly statusManager: StatusManager;
   private queueIntegration: QueueIntegrationService;
+  private pendingVerification: PendingVerificationService;
   private isInitialized = false;
   private hasItemsInAnyQueue = false;
 
@@ -18,6 +37,13 @@ export class QueueManagerService {
     this.statusManager = StatusManager.getInstance(this.redis, config.statusPolling.interval);
 
     this.queueIntegration = QueueIntegrationService.getInstance(this.redis, this.statusManager);
+
+    this.pendingVerification = PendingVerificationService.getInstance(
+      this.redis,
+      getPaymentSource(),
+      config.yodl.pendingVerificationInterval,
+      config.yodl.indexer.pendingGrace
+    );
   }
 
   public static getInstance(): QueueManagerService {
@@ -35,15 +61,27 @@ export class QueueManagerService {
     await this.redis.connect();
     await this.statusManager.init();
 
-    const beerTapConfigs = config.beerTaps.map((tap, index) => ({
-      id: tap.id || `beer-tap-${index}`,
+    const prometheus = PrometheusService.getInstance();
+    prometheus.setRedis(this.redis);
+    prometheus.observeStatusManager(this.statusManager);
+    prometheus.observeReplayProtection(ReplayProtectionService.getInstance());
+
+    const beerTapConfigs = config.beerTaps.map(tap => ({
       ...tap,
+      id: getBeerTapId(tap),
+      queue: getBeerTapQueueConfig(tap),
+      driver: createTapDriver(tap),
     }));
 
     await this.queueIntegration.init(beerTapConfigs);
 
     this.setupPollingCoordination();
 
+    // Requeued dead letters need the tap status polled like freshly queued items
+    DeadLetterService.getInstance().setRequeueCallback(() => this.handleQueueStateChange(true));
+
+    this.pendingVerification.start((payment, logger) => this.queueVerifiedPayment(payment, logger));
+
     this.isInitialized = true;
   }
 
@@ -54,6 +92,8 @@ export class QueueManagerService {
 
     await this.statusManager.stopConditionalPolling();
 
+    this.pendingVerification.stop();
+
     await this.queueIntegration.destroy();
     await this.statusManager.destroy();
     await this.redis.disconnect();
@@ -65,9 +105,13 @@ export class QueueManagerService {
     return this.isInitialized && this.redis.isReady();
   }
 
-  public async processWebhookTransaction(transaction: Payment, logger?: any): Promise<{ success: boolean; message: string }> {
+  public async processWebhookTransaction(
+    transaction: Payment,
+    order: WebhookOrder,
+    logger?: any
+  ): Promise<{ success: boolean; message: string; duplicate?: boolean; status?: IdempotencyStatus }> {
     const startTime = Date.now();
-    
+
     logger?.info('Processing webhook transaction in queue manager', {
       txHash: transaction.txHash,
       senderAddress: transaction.senderAddress,
@@ -75,13 +119,25 @@ export class QueueManagerService {
       invoiceAmount: transaction.invoiceAmount,
       invoiceCurrency: transaction.invoiceCurrency,
       memo: transaction.memo,
+      beerTapId: order.memo.beerTapId,
+      quantity: order.pour.quantity,
+      cupSize: order.pour.cupSize,
       startTime,
     });
 
     try {
-      await this.queueIntegration.processWebhookTransaction(transaction, logger);
+      const result = await this.queueIntegration.processWebhookTransaction(transaction, order, logger);
       const processingDuration = Date.now() - startTime;
 
+      if (result.duplicate && result.record) {
+        return {
+          success: true,
+          message: `Transaction already ${result.record.status}`,
+          duplicate: true,
+          status: result.record.status,
+        };
+      }
+
       logger?.info('Transaction successfully queued for processing', {
         txHash: transaction.txHash,
         processingDuration,
@@ -93,14 +149,14 @@ export class QueueManagerService {
       };
     } catch (error) {
       const errorDuration = Date.now() - startTime;
-      
+
       logger?.error('Failed to process webhook transaction in queue manager', {
         txHash: transaction.txHash,
         error: error instanceof Error ? error.message : String(error),
         errorStack: error instanceof Error ? error.stack : undefined,
         errorDuration,
       });
-      
+
       return {
         success: false,
         message: error instanceof Error ? error.message : 'Unknown error',
@@ -108,12 +164,68 @@ export class QueueManagerService {
     }
   }
 
+  /**
+   * Defers a webhook whose payment is not available yet, it is validated and queued once the payment source has it
+   */
+  public async registerPendingVerification(txHash: Hex, chainId?: number, requestId?: string): Promise<void> {
+    await this.pendingVerification.register(txHash, chainId, requestId);
+  }
+
   public async findTransactionStatus(txHash: string): Promise<{
-    status: 'not_found' | 'queued' | 'processing' | 'completed' | 'failed';
+    status: 'not_found' | 'pending_verification' | 'scheduled' | 'queued' | 'processing' | 'completed' | 'failed';
     queuePosition?: number;
+    scheduledAt?: Date;
     beerTapId?: string;
   }> {
-    return await this.queueIntegration.findTransactionStatus(txHash);
+    const result = await this.queueIntegration.findTransactionStatus(txHash);
+
+    if (result.status === 'not_found' && (await this.pendingVerification.isPending(txHash))) {
+      return { status: 'pending_verification' };
+    }
+
+    return result;
+  }
+
+  public async getTapMetrics(): Promise<TapMetrics[]> {
+    return await this.queueIntegration.getTapMetrics();
+  }
+
+  public async getDriverHealth(): Promise<TapDriverReport[]> {
+    return await this.queueIntegration.getDriverHealth();
+  }
+
+  public async getBeerTapStatuses(): Promise<BeerTapStatusOverview[]> {
+    return Array.from((await this.queueIntegration.getAllBeerTapStatuses()).values());
+  }
+
+  public getQueueConfigs(): { beerTapId: string; config: QueueConfig }[] {
+    return this.queueIntegration.getQueueConfigs();
+  }
+
+  public async getTapLocks(): Promise<{ instanceId: string; locks: TapLockInfo[] }> {
+    return {
+      instanceId: config.instanceId,
+      locks: await this.queueIntegration.getTapLocks(),
+    };
+  }
+
+  private async queueVerifiedPayment(
+    { transaction, parsedMemo, pour, conversion, scheduledAt, receivedAt }: ValidatedPayment,
+    logger: Logger
+  ): Promise<void> {
+    const result = await this.processWebhookTransaction(
+      transaction,
+      { memo: parsedMemo, pour, conversion, scheduledAt, receivedAt },
+      logger
+    );
+
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+
+    if (!result.duplicate) {
+      await ReplayProtectionService.getInstance().recordAccepted(transaction.senderAddress);
+    }
   }
 
   private setupPollingCoordination(): void {
@@ -0,0 +1,237 @@
+import { LatencyMetric, LatencySummary, QueueMetrics, QueueMetricsWindow } from '../../types/queue.js';
+import { RedisService } from '../redis.service.js';
+
+// Histogram bucket upper bounds (ms), from quick RPCs up to pours held back for an hour
+const LATENCY_BUCKETS = [
+  100,
+  250,
+  500,
+  1000,
+  2500,
+  5000,
+  10000,
+  30000,
+  60000,
+  120000,
+  300000,
+  600000,
+  1800000,
+  3600000,
+  Infinity,
+];
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Minute buckets back the last hour, hour buckets the last day, both kept a little past their window
+const MINUTE_BUCKET_TTL = 2 * 60 * 60;
+const HOUR_BUCKET_TTL = 25 * 60 * 60;
+
+type Counter = 'completedItems' | 'failedItems' | 'retriedItems';
+
+function bucketField(metric: LatencyMetric, bound: number): string {
+  return `${metric}:le:${bound === Infinity ? 'inf' : bound}`;
+}
+
+function sumHashes(hashes: Record<string, string>[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const hash of hashes) {
+    for (const [field, value] of Object.entries(hash)) {
+      const number = Number(value);
+      if (!isNaN(number)) {
+        totals[field] = (totals[field] ?? 0) + number;
+      }
+    }
+  }
+  return totals;
+}
+
+/**
+ * Estimates a quantile from the histogram, interpolating linearly inside the bucket it falls in
+ */
+function estimateQuantile(counts: number[], total: number, quantile: number): number {
+  const rank = quantile * total;
+  let cumulative = 0;
+
+  for (let index = 0; index < LATENCY_BUCKETS.length; index++) {
+    if (counts[index] === 0) {
+      continue;
+    }
+
+    const lower = index === 0 ? 0 : LATENCY_BUCKETS[index - 1];
+    const upper = LATENCY_BUCKETS[index];
+
+    if (cumulative + counts[index] >= rank) {
+      // Nothing to interpolate towards in the overflow bucket, report its lower bound
+      if (upper === Infinity) {
+        return lower;
+      }
+      return Math.round(lower + ((rank - cumulative) / counts[index]) * (upper - lower));
+    }
+
+    cumulative += counts[index];
+  }
+
+  return LATENCY_BUCKETS[LATENCY_BUCKETS.length - 2];
+}
+
+function summarize(totals: Record<string, number>, metric: LatencyMetric): LatencySummary {
+  const count = totals[`${metric}:count`] ?? 0;
+
+  if (count === 0) {
+    return { count, average: null, p50: null, p95: null, p99: null };
+  }
+
+  const counts = LATENCY_BUCKETS.map(bound => totals[bucketField(metric, bound)] ?? 0);
+
+  return {
+    count,
+    average: Math.round((totals[`${metric}:sum`] ?? 0) / count),
+    p50: estimateQuantile(counts, count, 0.5),
+    p95: estimateQuantile(counts, count, 0.95),
+    p99: estimateQuantile(counts, count, 0.99),
+  };
+}
+
+function toWindow(totals: Record<string, number>): QueueMetricsWindow {
+  return {
+    completedItems: totals.completedItems ?? 0,
+    failedItems: totals.failedItems ?? 0,
+    retriedItems: totals.retriedItems ?? 0,
+    processingTime: summarize(totals, 'processing_time'),
+    timeToPour: summarize(totals, 'time_to_pour'),
+  };
+}
+
+/**
+ * Queue metrics kept in Redis, shared by all instances
+ *
+ * @description
+ * Every update is a set of HINCRBY calls applied in one transaction, so instances processing
+ * the same queue never overwrite each other's counts. Latencies go into fixed histogram buckets
+ * from which percentiles are estimated. Besides the all-time totals each update is also counted
+ * in a per-minute and a per-hour bucket that expire on their own, summed up to get the last hour
+ * and the last day.
+ */
+export class QueueMetricsService {
+  private static instance: QueueMetricsService;
+  private redis: RedisService;
+
+  private constructor(redis: RedisService) {
+    this.redis = redis;
+  }
+
+  public static getInstance(redis: RedisService): QueueMetricsService {
+    if (!QueueMetricsService.instance) {
+      QueueMetricsService.instance = new QueueMetricsService(redis);
+    }
+    return QueueMetricsService.instance;
+  }
+
+  public async recordCompleted(queueName: string, processingTime?: number): Promise<void> {
+    await this.record(
+      queueName,
+      'completedItems',
+      processingTime !== undefined ? { metric: 'processing_time', value: processingTime } : undefined,
+      { lastProcessedAt: new Date().toISOString() }
+    );
+  }
+
+  public async recordFailed(queueName: string): Promise<void> {
+    await this.record(queueName, 'failedItems');
+  }
+
+  public async recordRetried(queueName: string): Promise<void> {
+    await this.record(queueName, 'retriedItems');
+  }
+
+  public async recordTimeToPour(queueName: string, timeToPour: number): Promise<void> {
+    await this.record(queueName, undefined, { metric: 'time_to_pour', value: Math.max(timeToPour, 0) });
+  }
+
+  /**
+   * @returns The all-time counters in the shape QueueService has always reported them
+   */
+  public async getTotals(queueName: string): Promise<Omit<QueueMetrics, 'processingItems'> | null> {
+    const [totals] = await this.redis.hGetAllMany([this.getTotalKey(queueName)]);
+    if (Object.keys(totals).length === 0) {
+      return null;
+    }
+
+    const processingTime = summarize(sumHashes([totals]), 'processing_time');
+
+    return {
+      totalItems: Number(totals.totalItems) || 0,
+      completedItems: Number(totals.completedItems) || 0,
+      failedItems: Number(totals.failedItems) || 0,
+      retriedItems: Number(totals.retriedItems) || 0,
+      averageProcessingTime: processingTime.average ?? 0,
+      lastProcessedAt: totals.lastProcessedAt ? new Date(totals.lastProcessedAt) : undefined,
+    };
+  }
+
+  public async getWindows(
+    queueName: string,
+    now = Date.now()
+  ): Promise<{ lastHour: QueueMetricsWindow; lastDay: QueueMetricsWindow; allTime: QueueMetricsWindow }> {
+    const minute = Math.floor(now / MINUTE);
+    const hour = Math.floor(now / HOUR);
+    const minuteKeys = Array.from({ length: 60 }, (_, index) => this.getMinuteKey(queueName, minute - index));
+    const hourKeys = Array.from({ length: 24 }, (_, index) => this.getHourKey(queueName, hour - index));
+
+    const hashes = await this.redis.hGetAllMany([this.getTotalKey(queueName), ...minuteKeys, ...hourKeys]);
+
+    return {
+      lastHour: toWindow(sumHashes(hashes.slice(1, 61))),
+      lastDay: toWindow(sumHashes(hashes.slice(61))),
+      allTime: toWindow(sumHashes(hashes.slice(0, 1))),
+    };
+  }
+
+  private async record(
+    queueName: string,
+    counter?: Counter,
+    latency?: { metric: LatencyMetric; value: number },
+    values?: Record<string, string>
+  ): Promise<void> {
+    const increments: Record<string, number> = {};
+
+    if (counter) {
+      increments[counter] = 1;
+    }
+
+    if (latency) {
+      const value = Math.round(latency.value);
+      const bound = LATENCY_BUCKETS.find(upper => value <= upper) ?? Infinity;
+      increments[`${latency.metric}:count`] = 1;
+      increments[`${latency.metric}:sum`] = value;
+      increments[bucketField(latency.metric, bound)] = 1;
+    }
+
+    const now = Date.now();
+
+    await this.redis.hIncrByMany([
+      {
+        key: this.getTotalKey(queueName),
+        // totalItems counts finished items, as it always has
+        increments: counter && counter !== 'retriedItems' ? { ...increments, totalItems: 1 } : increments,
+        values,
+      },
+      { key: this.getMinuteKey(queueName, Math.floor(now / MINUTE)), increments, ttl: MINUTE_BUCKET_TTL },
+      { key: this.getHourKey(queueName, Math.floor(now / HOUR)), increments, ttl: HOUR_BUCKET_TTL },
+    ]);
+  }
+
+  // The all-time hash keeps the key and counter fields of the earlier metrics hash, so existing counts carry on
+  private getTotalKey(queueName: string): string {
+    return `queue:${queueName}:metrics`;
+  }
+
+  private getMinuteKey(queueName: string, minute: number): string {
+    return `queue:${queueName}:metrics:minute:${minute}`;
+  }
+
+  private getHourKey(queueName: string, hour: number): string {
+    return `queue:${queueName}:metrics:hour:${hour}`;
+  }
+}
@@ -3,26 +3,48 @@ import { EventEmitter } from 'events';
 import {
   QueueConfig,
   QueueEvent,
+  QueueFollowUp,
   QueueEventHandler,
   QueueItem,
   QueueMetrics,
   QueueProcessingResult,
+  QueuePriority,
   QueueProcessor,
   RetryStrategy,
 } from '../../types/queue.js';
+import { classifyFailure } from '../../utils/failure-classification.js';
+import { getRank } from '../../utils/priority-lanes.js';
 import { RedisService } from '../redis.service.js';
-
+import { QueueMetricsService } from './queue-metrics.service.js';
+
+// Longest delay setTimeout accepts
+const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * Per-queue consumer with leases, retries and delayed items
+ *
+ * Consumption is event-driven: producers publish a wakeup on the queue's channel and the next
+ * retry or scheduled item arms a timer for its exact due time. The polling interval is only a
+ * safety net for missed notifications.
+ */
 export class QueueService<T> extends EventEmitter {
   private redis: RedisService;
+  private metrics: QueueMetricsService;
   private readonly queueName: string;
   private config: QueueConfig;
   private processingInterval: NodeJS.Timeout | null = null;
-  private retryInterval: NodeJS.Timeout | null = null;
+  private dueTimer: NodeJS.Timeout | null = null;
+  private reaperInterval: NodeJS.Timeout | null = null;
   private isProcessing = false;
+  private isDraining = false;
+  private drainRequested = false;
   private isInitialized = false;
   private processingItems = new Map<string, QueueItem<T>>();
+  // Serialized form of each processing item as stored in Redis, needed to acknowledge it
+  private reservations = new Map<string, string>();
   private hasItemsCallback?: (hasItems: boolean) => void;
   private processor?: QueueProcessor<T>;
+  private consumptionGuard?: () => boolean;
   private logger?: any;
 
   constructor(
@@ -35,6 +57,7 @@ export class QueueService<T> extends EventEmitter {
     super();
     this.queueName = queueName;
     this.redis = redis;
+    this.metrics = QueueMetricsService.getInstance(redis);
     this.processor = processor;
     this.logger = logger;
     this.config = {
@@ -45,6 +68,14 @@ export class QueueService<T> extends EventEmitter {
       concurrency: config.concurrency || 1,
       statusPollingInterval: config.statusPollingInterval || 5000,
       deadLetterQueueEnabled: config.deadLetterQueueEnabled !== false,
+      leaseDuration: config.leaseDuration || 60000,
+      reaperInterval: config.reaperInterval || 15000,
+      pollingInterval: config.pollingInterval || 5000,
+      priorityHeadStarts: config.priorityHeadStarts || {
+        [QueuePriority.HIGH]: 0,
+        [QueuePriority.NORMAL]: 0,
+        [QueuePriority.LOW]: 0,
+      },
     };
   }
 
@@ -57,16 +88,34 @@ export class QueueService<T> extends EventEmitter {
       await this.redis.connect();
     }
 
+    // Recover items left behind by a previous process before taking new ones
+    await this.recoverExpiredLeases();
+
+    await this.redis.subscribeToQueue(this.queueName, () => this.wake());
+
     this.startProcessing();
-    this.startRetryProcessor();
+    this.startLeaseReaper();
     this.isInitialized = true;
+
+    this.wake();
+  }
+
+  public getConfig(): QueueConfig {
+    return { ...this.config, priorityHeadStarts: { ...this.config.priorityHeadStarts } };
   }
 
   public async destroy(): Promise<void> {
     this.stopProcessing();
-    this.stopRetryProcessor();
+    this.stopLeaseReaper();
     this.isInitialized = false;
 
+    await this.redis.unsubscribeFromQueue(this.queueName).catch(error => {
+      this.logger?.error('Failed to unsubscribe from queue wakeups', {
+        queueName: this.queueName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
     // Wait for any ongoing processing to complete
     await this.waitForProcessingComplete();
   }
@@ -86,57 +135,142 @@ export class QueueService<T> extends EventEmitter {
     }
 
     this.isProcessing = true;
-    this.processingInterval = setInterval(() => {
-      this.processQueueItems().catch(error => {
+
+    // Safety net only, work normally arrives through wakeups and due timers
+    this.processingInterval = setInterval(() => this.wake(), this.config.pollingInterval);
+  }
+
+  private stopProcessing(): void {
+    if (this.processingInterval) {
+      clearInterval(this.processingInterval);
+      this.processingInterval = null;
+    }
+    if (this.dueTimer) {
+      clearTimeout(this.dueTimer);
+      this.dueTimer = null;
+    }
+    this.isProcessing = false;
+  }
+
+  /**
+   * Checks the queue for work right away, e.g. after a wakeup or once this instance may consume again
+   *
+   * Calls while a check is running are coalesced into one more check afterwards, so no wakeup is lost.
+   */
+  public wake(): void {
+    if (!this.isProcessing) {
+      return;
+    }
+
+    if (this.isDraining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.isDraining = true;
+
+    this.drain()
+      .catch(error => {
         this.logger?.error('Error processing queue items', {
           queueName: this.queueName,
           error: error instanceof Error ? error.message : String(error),
           errorStack: error instanceof Error ? error.stack : undefined,
         });
+      })
+      .finally(() => {
+        this.isDraining = false;
       });
-    }, 1000);
   }
 
-  private stopProcessing(): void {
-    if (this.processingInterval) {
-      clearInterval(this.processingInterval);
-      this.processingInterval = null;
+  private async drain(): Promise<void> {
+    do {
+      this.drainRequested = false;
+      await this.processRetryItems();
+      await this.processQueueItems();
+      await this.armDueTimer();
+    } while (this.drainRequested && this.isProcessing);
+  }
+
+  /**
+   * Sets a timer for the earliest retry or scheduled item, so it is picked up when due rather than on the next poll
+   */
+  private async armDueTimer(): Promise<void> {
+    if (!this.canConsume()) {
+      return;
     }
-    this.isProcessing = false;
+
+    const dueAt = await this.redis.getNextDueTime(this.queueName);
+
+    if (this.dueTimer) {
+      clearTimeout(this.dueTimer);
+      this.dueTimer = null;
+    }
+
+    if (dueAt === null || !this.isProcessing) {
+      return;
+    }
+
+    this.dueTimer = setTimeout(
+      () => {
+        this.dueTimer = null;
+        this.wake();
+      },
+      Math.min(Math.max(dueAt - Date.now(), 0), MAX_TIMER_DELAY)
+    );
   }
 
-  private startRetryProcessor(): void {
-    this.retryInterval = setInterval(() => {
-      this.processRetryItems().catch(error => {
-        this.logger?.error('Error processing retry items', {
+  private startLeaseReaper(): void {
+    this.reaperInterval = setInterval(() => {
+      this.recoverExpiredLeases().catch(error => {
+        this.logger?.error('Error recovering expired leases', {
           queueName: this.queueName,
           error: error instanceof Error ? error.message : String(error),
           errorStack: error instanceof Error ? error.stack : undefined,
         });
       });
-    }, 5000);
+    }, this.config.reaperInterval);
   }
 
-  private stopRetryProcessor(): void {
-    if (this.retryInterval) {
-      clearInterval(this.retryInterval);
-      this.retryInterval = null;
+  private stopLeaseReaper(): void {
+    if (this.reaperInterval) {
+      clearInterval(this.reaperInterval);
+      this.reaperInterval = null;
+    }
+  }
+
+  private async recoverExpiredLeases(): Promise<void> {
+    const recovered = await this.redis.requeueExpiredLeases(this.queueName);
+
+    if (recovered > 0) {
+      this.logger?.warn('Requeued items with expired processing leases', {
+        queueName: this.queueName,
+        recovered,
+      });
+
+      if (this.hasItemsCallback) {
+        this.hasItemsCallback(true);
+      }
     }
   }
 
   private async processQueueItems(): Promise<void> {
-    if (this.processingItems.size >= this.config.concurrency) {
+    if (this.processingItems.size >= this.config.concurrency || !this.canConsume()) {
       return;
     }
 
+    await this.promoteScheduledItems();
+
     const availableSlots = this.config.concurrency - this.processingItems.size;
 
     for (let i = 0; i < availableSlots; i++) {
-      const item = await this.redis.dequeue<T>(this.queueName);
-      if (!item) {
+      const reserved = await this.redis.reserve<T>(this.queueName, this.config.leaseDuration);
+      if (!reserved) {
         break;
       }
 
+      const { item, raw } = reserved;
+      this.reservations.set(item.id, raw);
+
       this.processItem(item).catch(error => {
         this.logger?.error('Error processing queue item', {
           queueName: this.queueName,
@@ -155,6 +289,14 @@ export class QueueService<T> extends EventEmitter {
     }
   }
 
+  private async promoteScheduledItems(): Promise<void> {
+    const promoted = await this.redis.promoteScheduled(this.queueName);
+
+    if (promoted > 0) {
+      this.logger?.info('Scheduled items became due', { queueName: this.queueName, promoted });
+    }
+  }
+
   private async processItem(item: QueueItem<T>): Promise<void> {
     if (this.processingItems.has(item.id)) {
       return;
@@ -163,6 +305,20 @@ export class QueueService<T> extends EventEmitter {
     this.processingItems.set(item.id, item);
     const startTime = Date.now();
 
+    // Keep the lease alive for as long as the pour takes, a crashed process stops renewing it
+    const heartbeat = setInterval(
+      () => {
+        this.redis.renewLease(this.queueName, item.id, this.config.leaseDuration).catch(error => {
+          this.logger?.error('Failed to renew processing lease', {
+            queueName: this.queueName,
+            itemId: item.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      },
+      Math.max(Math.floor(this.config.leaseDuration / 3), 1000)
+    );
+
     try {
       this.emitEvent({
         type: 'item_processing',
@@ -177,7 +333,14 @@ export class QueueService<T> extends EventEmitter {
 
       if (this.processor) {
         // Use the processor function if provided
-        result = await this.processor(item);
+        result = await this.processor(item, {
+          checkpoint: async () => {
+            const raw = this.reservations.get(item.id);
+            if (raw) {
+              this.reservations.set(item.id, await this.redis.updateReserved(this.queueName, raw, item));
+            }
+          },
+        });
       } else {
         // Fallback to event-based processing (legacy behavior)
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -202,17 +365,21 @@ export class QueueService<T> extends EventEmitter {
         errorStack: error instanceof Error ? error.stack : undefined,
       });
 
+      const classification = classifyFailure(error);
       const result: QueueProcessingResult = {
         success: false,
         itemId: item.id,
         processingTime: Date.now() - startTime,
         error: error instanceof Error ? error.message : 'Unknown error',
-        shouldRetry: true,
+        shouldRetry: classification.failureClass === 'retryable',
+        ...classification,
       };
 
       await this.handleItemFailure(item, result);
     } finally {
+      clearInterval(heartbeat);
       this.processingItems.delete(item.id);
+      this.reservations.delete(item.id);
 
       const queueLength = await this.getQueueLength();
       const totalItems = queueLength + this.processingItems.size;
@@ -220,20 +387,16 @@ export class QueueService<T> extends EventEmitter {
       if (this.hasItemsCallback) {
         this.hasItemsCallback(totalItems > 0);
       }
+
+      // A slot is free again, take the next item without waiting for a wakeup
+      this.wake();
     }
   }
 
   private async handleItemSuccess(item: QueueItem<T>, result: QueueProcessingResult): Promise<void> {
+    await this.acknowledge(item);
     await this.updateMetrics('completed', result.processingTime);
 
-    // Store completed transaction hash for status checking (24 hour TTL)
-    if (item.data && typeof item.data === 'object' && 'transactionHash' in item.data) {
-      const txHash = (item.data as any).transactionHash;
-      if (txHash) {
-        await this.redis.setStatus(`completed:${txHash}`, 1, 86400); // 24 hour TTL
-      }
-    }
-
     this.emitEvent({
       type: 'item_completed',
       queueId: this.queueName,
@@ -249,10 +412,13 @@ export class QueueService<T> extends EventEmitter {
     item.lastAttemptAt = new Date();
     item.errors.push(result.error || 'Unknown error');
 
-    if (item.attempts >= item.maxAttempts) {
-      if (this.config.deadLetterQueueEnabled) {
-        await this.redis.moveToDeadLetter(this.queueName, item);
-      }
+    const isTerminal = result.failureClass ? result.failureClass === 'terminal' : !result.shouldRetry;
+
+    // Items that shouldn't be retried are dead-lettered too, a paid pour is never dropped silently
+    if (item.attempts >= item.maxAttempts || isTerminal) {
+      item.deadLetterReason = isTerminal ? (result.reasonCode ?? 'unknown') : 'max_attempts_exceeded';
+
+      await this.acknowledge(item, this.config.deadLetterQueueEnabled ? { type: 'dead_letter', item } : undefined);
 
       await this.updateMetrics('failed');
 
@@ -261,27 +427,51 @@ export class QueueService<T> extends EventEmitter {
         queueId: this.queueName,
         itemId: item.id,
         beerTapId: item.beerTapId,
-        data: { attempts: item.attempts, errors: item.errors },
+        data: {
+          attempts: item.attempts,
+          errors: item.errors,
+          failureClass: result.failureClass,
+          reasonCode: item.deadLetterReason,
+          item: item.data,
+        },
         timestamp: new Date(),
       });
-    } else if (result.shouldRetry) {
-      const retryDelay = this.calculateRetryDelay(item.attempts);
+    } else {
+      const retryDelay = this.calculateRetryDelay(item);
+      item.lastRetryDelay = retryDelay;
       const retryAt = new Date(Date.now() + retryDelay);
 
-      await this.redis.scheduleRetry(this.queueName, item, retryAt);
+      await this.acknowledge(item, { type: 'retry', item, retryAt });
+
+      await this.updateMetrics('retried');
 
       this.emitEvent({
         type: 'item_retry',
         queueId: this.queueName,
         itemId: item.id,
         beerTapId: item.beerTapId,
-        data: { retryAt, attempt: item.attempts },
+        data: { retryAt, attempt: item.attempts, reasonCode: result.reasonCode, item: item.data },
         timestamp: new Date(),
       });
     }
   }
 
-  private calculateRetryDelay(attempts: number): number {
+  /**
+   * Releases the item's reservation, together with its follow-up so the item is never in neither place
+   */
+  private async acknowledge(item: QueueItem<T>, followUp?: QueueFollowUp<T>): Promise<void> {
+    const raw = this.reservations.get(item.id);
+    if (!raw) {
+      return;
+    }
+
+    await this.redis.acknowledge(this.queueName, item.id, raw, followUp);
+    this.reservations.delete(item.id);
+  }
+
+  private calculateRetryDelay(item: QueueItem<T>): number {
+    const { attempts } = item;
+
     switch (this.config.retryStrategy) {
       case RetryStrategy.EXPONENTIAL:
         return Math.min(this.config.baseDelay * Math.pow(2, attempts - 1), this.config.maxDelay);
@@ -289,44 +479,37 @@ export class QueueService<T> extends EventEmitter {
         return Math.min(this.config.baseDelay * attempts, this.config.maxDelay);
       case RetryStrategy.CONSTANT:
         return this.config.baseDelay;
+      case RetryStrategy.DECORRELATED_JITTER: {
+        const previous = item.lastRetryDelay ?? this.config.baseDelay;
+        const upper = Math.max(previous * 3, this.config.baseDelay);
+        return Math.min(this.config.baseDelay + Math.random() * (upper - this.config.baseDelay), this.config.maxDelay);
+      }
       default:
         return this.config.baseDelay;
     }
   }
 
   private async processRetryItems(): Promise<void> {
-    const retryItems = await this.redis.getRetryItems<T>(this.queueName);
-
-    for (const item of retryItems) {
-      await this.redis.removeRetryItem(this.queueName, item);
-      await this.redis.enqueue(this.queueName, item);
+    if (!this.canConsume()) {
+      return;
     }
-  }
 
-  private async updateMetrics(type: 'completed' | 'failed', processingTime?: number): Promise<void> {
-    const metricsKey = `queue:${this.queueName}:metrics`;
+    // Retried items already waited their turn, they go back to the front of their lane with their original rank
+    const promoted = await this.redis.promoteRetries(this.queueName);
 
-    const currentMetrics = (await this.redis.getMetrics(metricsKey)) || {
-      totalItems: 0,
-      processingItems: 0,
-      failedItems: 0,
-      completedItems: 0,
-      averageProcessingTime: 0,
-    };
+    if (promoted > 0) {
+      this.logger?.info('Retry items became due', { queueName: this.queueName, promoted });
+    }
+  }
 
+  private async updateMetrics(type: 'completed' | 'failed' | 'retried', processingTime?: number): Promise<void> {
     if (type === 'completed') {
-      currentMetrics.completedItems++;
-      currentMetrics.totalItems++;
-      if (processingTime) {
-        currentMetrics.averageProcessingTime = (currentMetrics.averageProcessingTime + processingTime) / 2;
-      }
-      currentMetrics.lastProcessedAt = new Date();
+      await this.metrics.recordCompleted(this.queueName, processingTime);
     } else if (type === 'failed') {
-      currentMetrics.failedItems++;
-      currentMetrics.totalItems++;
+      await this.metrics.recordFailed(this.queueName);
+    } else {
+      await this.metrics.recordRetried(this.queueName);
     }
-
-    await this.redis.setMetrics(metricsKey, currentMetrics);
   }
 
   private emitEvent(event: QueueEvent): void {
@@ -335,15 +518,21 @@ export class QueueService<T> extends EventEmitter {
 
   public async enqueue(data: T, options: Partial<QueueItem<T>> = {}): Promise<string> {
     const startTime = Date.now();
+    const priority = options.priority || QueuePriority.NORMAL;
+    const scheduledAt = options.scheduledAt || new Date();
+    const isDelayed = scheduledAt.getTime() > startTime;
     const item: QueueItem<T> = {
       id: options.id || randomUUID(),
       data,
       attempts: 0,
       maxAttempts: options.maxAttempts || this.config.maxAttempts,
       createdAt: new Date(),
-      scheduledAt: options.scheduledAt || new Date(),
+      scheduledAt,
       errors: [],
       beerTapId: options.beerTapId,
+      priority,
+      // Delayed items join their lane when they become due, and are ranked from then
+      rank: getRank(Math.max(scheduledAt.getTime(), startTime), priority, this.config.priorityHeadStarts),
     };
 
     this.logger?.info('Enqueuing item', {
@@ -351,9 +540,15 @@ export class QueueService<T> extends EventEmitter {
       itemId: item.id,
       beerTapId: item.beerTapId,
       maxAttempts: item.maxAttempts,
+      priority: item.priority,
+      scheduledAt: isDelayed ? item.scheduledAt : undefined,
     });
 
-    await this.redis.enqueue(this.queueName, item);
+    if (isDelayed) {
+      await this.redis.schedule(this.queueName, item);
+    } else {
+      await this.redis.enqueue(this.queueName, item);
+    }
     const enqueueDuration = Date.now() - startTime;
 
     this.logger?.info('Item successfully enqueued', {
@@ -372,7 +567,8 @@ export class QueueService<T> extends EventEmitter {
       timestamp: new Date(),
     });
 
-    if (this.hasItemsCallback) {
+    // Delayed items don't need the tap watched until they are due
+    if (this.hasItemsCallback && !isDelayed) {
       this.hasItemsCallback(true);
     }
 
@@ -384,14 +580,12 @@ export class QueueService<T> extends EventEmitter {
   }
 
   public async getMetrics(): Promise<QueueMetrics | null> {
-    const metricsKey = `queue:${this.queueName}:metrics`;
-    const metrics = await this.redis.getMetrics(metricsKey);
-
-    if (metrics) {
-      metrics.processingItems = this.processingItems.size;
-    }
+    const totals = await this.metrics.getTotals(this.queueName);
+    return totals ? { ...totals, processingItems: this.processingItems.size } : null;
+  }
 
-    return metrics;
+  public getProcessingCount(): number {
+    return this.processingItems.size;
   }
 
   public onQueueEvent(handler: QueueEventHandler): void {
@@ -405,4 +599,15 @@ export class QueueService<T> extends EventEmitter {
   public setProcessor(processor: QueueProcessor<T>): void {
     this.processor = processor;
   }
+
+  /**
+   * Restricts taking items off the queue to when the guard allows it, e.g. while holding the queue's lock
+   */
+  public setConsumptionGuard(guard: () => boolean): void {
+    this.consumptionGuard = guard;
+  }
+
+  private canConsume(): boolean {
+    return !this.consumptionGuard || this.consumptionGuard();
+  }
 }
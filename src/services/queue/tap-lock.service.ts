@@ -0,0 +1,96 @@
+import { TapLockInfo } from '../../types/queue.js';
+import { RedisService } from '../redis.service.js';
+
+/**
+ * Per-tap distributed locks so only one instance drives a beer tap at a time
+ *
+ * Each acquisition mints a monotonically increasing fencing token. Holders check that their
+ * token is still current right before every side effect on the tap, so an instance that
+ * stalled past its lock's expiry can't trigger a tap another instance has taken over.
+ */
+export class TapLockService {
+  private static instance: TapLockService;
+  private redis: RedisService;
+  private readonly owner: string;
+  private readonly ttl: number;
+  private heldTokens = new Map<string, number>();
+
+  private constructor(redis: RedisService, owner: string, ttl: number) {
+    this.redis = redis;
+    this.owner = owner;
+    this.ttl = ttl;
+  }
+
+  public static getInstance(redis: RedisService, owner: string, ttl: number): TapLockService {
+    if (!TapLockService.instance) {
+      TapLockService.instance = new TapLockService(redis, owner, ttl);
+    }
+    return TapLockService.instance;
+  }
+
+  public getOwner(): string {
+    return this.owner;
+  }
+
+  public getTtl(): number {
+    return this.ttl;
+  }
+
+  /**
+   * Acquires the tap's lock, or extends it if this instance already holds it
+   *
+   * @returns The fencing token, or null if another instance holds the lock
+   */
+  public async acquire(beerTapId: string): Promise<number | null> {
+    const token = await this.redis.acquireLock(this.getKey(beerTapId), this.owner, this.ttl);
+
+    if (token === null) {
+      this.heldTokens.delete(beerTapId);
+    } else {
+      this.heldTokens.set(beerTapId, token);
+    }
+
+    return token;
+  }
+
+  public async release(beerTapId: string): Promise<void> {
+    const token = this.heldTokens.get(beerTapId);
+    if (token === undefined) {
+      return;
+    }
+
+    this.heldTokens.delete(beerTapId);
+    await this.redis.releaseLock(this.getKey(beerTapId), this.owner, token);
+  }
+
+  /**
+   * Token of the lock this instance believes it holds, as of the last acquisition
+   */
+  public getHeldToken(beerTapId: string): number | undefined {
+    return this.heldTokens.get(beerTapId);
+  }
+
+  /**
+   * Checks with Redis that the given token is still the current holder of the tap's lock
+   */
+  public async isCurrent(beerTapId: string, token: number): Promise<boolean> {
+    const lock = await this.redis.getLock(this.getKey(beerTapId));
+    return lock !== null && lock.owner === this.owner && lock.token === token;
+  }
+
+  public async getLockInfo(beerTapId: string): Promise<TapLockInfo> {
+    const lock = await this.redis.getLock(this.getKey(beerTapId));
+
+    return {
+      beerTapId,
+      owner: lock?.owner ?? null,
+      fencingToken: lock?.token ?? null,
+      expiresInMs: lock && lock.ttl >= 0 ? lock.ttl : null,
+      ownedByThisInstance: lock?.owner === this.owner,
+    };
+  }
+
+  private getKey(beerTapId: string): string {
+    return `lock:beer-tap:${beerTapId}`;
+  }
+}
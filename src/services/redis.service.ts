@@ -1,9 +1,134 @@
 import { createClient, RedisClientType } from 'redis';
-import { QueueItem, QueueMetrics, QueueStatus } from '../types/queue.js';
+import { QueueFollowUp, QueueItem, QueueStatus, ReservedQueueItem, StoredQueueItem } from '../types/queue.js';
+import { getLaneKey, orderByService, QUEUE_PRIORITIES } from '../utils/priority-lanes.js';
+
+// Moves the next item into the processing list and leases it in one step, so no item is ever only in memory.
+// The next item is the lane head (KEYS[4..], highest lane first) with the lowest rank, ties going to the higher lane.
+// Items that aren't valid JSON are parked in the dead letter list (KEYS[3]) rather than blocking the queue.
+const RESERVE_SCRIPT = `
+local lane, raw, item, rank
+for index = 4, #KEYS do
+  local head = redis.call('LINDEX', KEYS[index], -1)
+  if head then
+    local ok, decoded = pcall(cjson.decode, head)
+    if not ok or type(decoded) ~= 'table' or not decoded.id then
+      redis.call('RPOP', KEYS[index])
+      redis.call('LPUSH', KEYS[3], head)
+      return false
+    end
+    local headRank = tonumber(decoded.rank) or 0
+    if not lane or headRank < rank then
+      lane, raw, item, rank = KEYS[index], head, decoded, headRank
+    end
+  end
+end
+if not lane then
+  return false
+end
+redis.call('RPOP', lane)
+redis.call('LPUSH', KEYS[1], raw)
+redis.call('ZADD', KEYS[2], ARGV[1], item.id)
+return raw
+`;
+
+// Takes the lock if it's free (minting a new fencing token) or extends it if this owner holds it already
+const ACQUIRE_LOCK_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current then
+  local separator = string.find(current, ':[^:]*$')
+  if string.sub(current, 1, separator - 1) ~= ARGV[1] then
+    return false
+  end
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return tonumber(string.sub(current, separator + 1))
+end
+local token = redis.call('INCR', KEYS[2])
+redis.call('SET', KEYS[1], ARGV[1] .. ':' .. token, 'PX', ARGV[2])
+return token
+`;
+
+// Deletes the lock only if it is still held with the given owner and token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Replaces a reserved item with its updated version, keeping it in the processing list
+const UPDATE_RESERVED_SCRIPT = `
+if redis.call('LREM', KEYS[1], 1, ARGV[1]) == 0 then
+  return 0
+end
+redis.call('LPUSH', KEYS[1], ARGV[2])
+return 1
+`;
+
+// Puts reserved items whose lease expired (or was never written) back at the head of their lane (KEYS[3..5])
+const REQUEUE_EXPIRED_SCRIPT = `
+local lanes = { high = KEYS[3], normal = KEYS[4], low = KEYS[5] }
+local requeued = 0
+for _, raw in ipairs(redis.call('LRANGE', KEYS[1], 0, -1)) do
+  local ok, item = pcall(cjson.decode, raw)
+  local id = ok and type(item) == 'table' and item.id or raw
+  local expiresAt = redis.call('ZSCORE', KEYS[2], id)
+  if not expiresAt or tonumber(expiresAt) <= tonumber(ARGV[1]) then
+    local lane = ok and type(item) == 'table' and lanes[item.priority] or KEYS[4]
+    redis.call('LREM', KEYS[1], 1, raw)
+    redis.call('RPUSH', lane, raw)
+    redis.call('ZREM', KEYS[2], id)
+    requeued = requeued + 1
+  end
+end
+return requeued
+`;
+
+// Moves scheduled items (KEYS[1]) that are due into their lane (KEYS[2..4]), in order of their scheduled time
+const PROMOTE_SCHEDULED_SCRIPT = `
+local lanes = { high = KEYS[2], normal = KEYS[3], low = KEYS[4] }
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, raw in ipairs(due) do
+  local ok, item = pcall(cjson.decode, raw)
+  local lane = ok and type(item) == 'table' and lanes[item.priority] or KEYS[3]
+  redis.call('ZREM', KEYS[1], raw)
+  redis.call('LPUSH', lane, raw)
+end
+return #due
+`;
+
+// Moves retries (KEYS[1]) that are due back to the front of their lane (KEYS[2..4]), where their rank puts them
+// back in line. An item only goes into a lane if this call took it out of the retry set, so it is never lost or doubled.
+const PROMOTE_RETRIES_SCRIPT = `
+local lanes = { high = KEYS[2], normal = KEYS[3], low = KEYS[4] }
+local moved = 0
+for _, raw in ipairs(redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])) do
+  if redis.call('ZREM', KEYS[1], raw) == 1 then
+    local ok, item = pcall(cjson.decode, raw)
+    local lane = ok and type(item) == 'table' and lanes[item.priority] or KEYS[3]
+    redis.call('RPUSH', lane, raw)
+    moved = moved + 1
+  end
+end
+return moved
+`;
+
+// Takes an item out of the dead letter list and, when a replacement is given, puts it back on the queue.
+// Returns 0 if the item was no longer dead-lettered, e.g. because another operator got to it first.
+const REMOVE_DEAD_LETTER_SCRIPT = `
+if redis.call('LREM', KEYS[1], 1, ARGV[1]) == 0 then
+  return 0
+end
+if ARGV[2] ~= '' then
+  redis.call('LPUSH', KEYS[2], ARGV[2])
+end
+return 1
+`;
 
 export class RedisService {
   private static instance: RedisService;
   private client: RedisClientType;
+  // Pub/sub needs a connection of its own, created on the first subscription
+  private subscriber: RedisClientType | null = null;
   private isConnected = false;
   private reconnectAttempts = 0;
   private readonly maxReconnectAttempts = 10;
@@ -60,6 +185,11 @@ export class RedisService {
   }
 
   public async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.disconnect();
+      this.subscriber = null;
+    }
+
     if (this.isConnected) {
       await this.client.disconnect();
       this.isConnected = false;
@@ -70,9 +200,20 @@ export class RedisService {
     return this.isConnected && this.client.isReady;
   }
 
-  public async enqueue<T>(queueName: string, item: QueueItem<T>): Promise<void> {
+  /**
+   * Adds an item to the back of its priority lane, or to the front for items that already waited their turn
+   */
+  public async enqueue<T>(queueName: string, item: QueueItem<T>, front = false): Promise<void> {
     const serializedItem = JSON.stringify(item);
-    await this.client.lPush(queueName, serializedItem);
+    const laneKey = getLaneKey(queueName, item.priority);
+
+    if (front) {
+      await this.client.rPush(laneKey, serializedItem);
+    } else {
+      await this.client.lPush(laneKey, serializedItem);
+    }
+
+    await this.wakeConsumer(queueName);
 
     await this.client.hSet(`queue:${queueName}:metadata:${item.id}`, {
       id: item.id,
@@ -81,17 +222,154 @@ export class RedisService {
       createdAt: item.createdAt.toISOString(),
       scheduledAt: item.scheduledAt.toISOString(),
       beerTapId: item.beerTapId || '',
+      priority: item.priority || '',
+    });
+  }
+
+  /**
+   * Atomically moves the next item into the queue's processing list and leases it
+   *
+   * The item stays in the processing list until it is acknowledged, so a crash mid-processing
+   * leaves it recoverable by requeueExpiredLeases once the lease runs out.
+   */
+  public async reserve<T>(queueName: string, leaseDuration: number): Promise<ReservedQueueItem<T> | null> {
+    const raw = (await this.client.eval(RESERVE_SCRIPT, {
+      keys: [
+        `${queueName}:processing`,
+        `${queueName}:leases`,
+        `${queueName}:dead`,
+        ...QUEUE_PRIORITIES.map(priority => getLaneKey(queueName, priority)),
+      ],
+      arguments: [(Date.now() + leaseDuration).toString()],
+    })) as string | null;
+
+    if (!raw) {
+      return null;
+    }
+
+    const item = this.deserializeItem<T>(raw);
+    return item ? { item, raw } : null;
+  }
+
+  public async renewLease(queueName: string, itemId: string, leaseDuration: number): Promise<boolean> {
+    const updated = await this.client.zAdd(
+      `${queueName}:leases`,
+      { score: Date.now() + leaseDuration, value: itemId },
+      { XX: true, CH: true }
+    );
+    return updated > 0;
+  }
+
+  /**
+   * Persists progress on a reserved item so a recovered item resumes where it stopped
+   *
+   * @returns The new serialized item, to use for later updates and the acknowledgement
+   */
+  public async updateReserved<T>(queueName: string, raw: string, item: QueueItem<T>): Promise<string> {
+    const updatedRaw = JSON.stringify(item);
+    const replaced = await this.client.eval(UPDATE_RESERVED_SCRIPT, {
+      keys: [`${queueName}:processing`],
+      arguments: [raw, updatedRaw],
+    });
+
+    if (replaced !== 1) {
+      throw new Error(`Reserved item ${item.id} is no longer in ${queueName}:processing`);
+    }
+
+    return updatedRaw;
+  }
+
+  /**
+   * Removes a reserved item from the processing list, atomically scheduling its retry or dead-lettering it
+   */
+  public async acknowledge<T>(
+    queueName: string,
+    itemId: string,
+    raw: string,
+    followUp?: QueueFollowUp<T>
+  ): Promise<void> {
+    const transaction = this.client.multi().lRem(`${queueName}:processing`, 1, raw).zRem(`${queueName}:leases`, itemId);
+
+    if (followUp?.type === 'retry') {
+      transaction.zAdd(`${queueName}:retry`, {
+        score: followUp.retryAt.getTime(),
+        value: JSON.stringify(followUp.item),
+      });
+    } else if (followUp?.type === 'dead_letter') {
+      transaction.lPush(`${queueName}:dead`, JSON.stringify(followUp.item));
+    }
+
+    await transaction.exec();
+
+    if (followUp?.type === 'retry') {
+      await this.wakeConsumer(queueName);
+    }
+  }
+
+  /**
+   * Puts items whose processing lease expired back at the head of their queue
+   *
+   * @returns The number of recovered items
+   */
+  public async requeueExpiredLeases(queueName: string, now = Date.now()): Promise<number> {
+    const requeued = (await this.client.eval(REQUEUE_EXPIRED_SCRIPT, {
+      keys: [
+        `${queueName}:processing`,
+        `${queueName}:leases`,
+        ...QUEUE_PRIORITIES.map(priority => getLaneKey(queueName, priority)),
+      ],
+      arguments: [now.toString()],
+    })) as number;
+
+    if (requeued > 0) {
+      await this.wakeConsumer(queueName);
+    }
+
+    return requeued;
+  }
+
+  /**
+   * Acquires or extends a lock held by owner
+   *
+   * @returns The fencing token of the owner's lock, or null if another owner holds it
+   */
+  public async acquireLock(key: string, owner: string, ttl: number): Promise<number | null> {
+    const token = await this.client.eval(ACQUIRE_LOCK_SCRIPT, {
+      keys: [key, `${key}:fence`],
+      arguments: [owner, ttl.toString()],
+    });
+    return typeof token === 'number' ? token : null;
+  }
+
+  public async releaseLock(key: string, owner: string, token: number): Promise<boolean> {
+    const released = await this.client.eval(RELEASE_LOCK_SCRIPT, {
+      keys: [key],
+      arguments: [`${owner}:${token}`],
     });
+    return released === 1;
   }
 
-  public async dequeue<T>(queueName: string): Promise<QueueItem<T> | null> {
-    const serializedItem = await this.client.rPop(queueName);
-    if (!serializedItem) {
+  /**
+   * @returns The lock's owner and fencing token with the remaining time to live, or null if nobody holds it
+   */
+  public async getLock(key: string): Promise<{ owner: string; token: number; ttl: number } | null> {
+    const [value, ttl] = await Promise.all([this.client.get(key), this.client.pTTL(key)]);
+    if (!value) {
       return null;
     }
 
+    const separator = value.lastIndexOf(':');
+    return { owner: value.slice(0, separator), token: Number(value.slice(separator + 1)), ttl };
+  }
+
+  public async getProcessingItems<T>(queueName: string): Promise<QueueItem<T>[]> {
+    const items = await this.client.lRange(`${queueName}:processing`, 0, -1);
+    return items.map(raw => this.deserializeItem<T>(raw)).filter((item): item is QueueItem<T> => item !== null);
+  }
+
+  private deserializeItem<T>(raw: string): QueueItem<T> | null {
     try {
-      const item = JSON.parse(serializedItem) as QueueItem<T>;
+      const item = JSON.parse(raw) as QueueItem<T>;
       item.createdAt = new Date(item.createdAt);
       item.scheduledAt = new Date(item.scheduledAt);
       if (item.lastAttemptAt) {
@@ -103,8 +381,32 @@ export class RedisService {
     }
   }
 
+  /**
+   * @returns The number of items waiting in all of the queue's priority lanes
+   */
   public async getQueueLength(queueName: string): Promise<number> {
-    return await this.client.lLen(queueName);
+    const lengths = await Promise.all(
+      QUEUE_PRIORITIES.map(priority => this.client.lLen(getLaneKey(queueName, priority)))
+    );
+    return lengths.reduce((total, length) => total + length, 0);
+  }
+
+  /**
+   * @returns The items waiting in the queue's priority lanes, in the order they will be served
+   */
+  public async getQueuedItems<T>(queueName: string): Promise<QueueItem<T>[]> {
+    const lanes = await Promise.all(
+      QUEUE_PRIORITIES.map(async priority => {
+        const items = await this.client.lRange(getLaneKey(queueName, priority), 0, -1);
+        // Lanes are served from their tail
+        return items
+          .reverse()
+          .map(raw => this.deserializeItem<T>(raw))
+          .filter((item): item is QueueItem<T> => item !== null);
+      })
+    );
+
+    return orderByService(lanes);
   }
 
   public async peekQueue<T>(queueName: string, count = 1): Promise<QueueItem<T>[]> {
@@ -149,9 +451,16 @@ export class RedisService {
     return parsedItems;
   }
 
-  public async removeRetryItem(queueName: string, item: QueueItem): Promise<void> {
-    const serializedItem = JSON.stringify(item);
-    await this.client.zRem(`${queueName}:retry`, serializedItem);
+  /**
+   * Moves retries that are due onto the front of their lane
+   *
+   * @returns The number of items moved
+   */
+  public async promoteRetries(queueName: string, now = Date.now()): Promise<number> {
+    return (await this.client.eval(PROMOTE_RETRIES_SCRIPT, {
+      keys: [`${queueName}:retry`, ...QUEUE_PRIORITIES.map(priority => getLaneKey(queueName, priority))],
+      arguments: [now.toString()],
+    })) as number;
   }
 
   public async moveToDeadLetter<T>(queueName: string, item: QueueItem<T>): Promise<void> {
@@ -159,6 +468,135 @@ export class RedisService {
     await this.client.lPush(`${queueName}:dead`, serializedItem);
   }
 
+  /**
+   * Holds an item back until its scheduledAt, see promoteScheduled
+   */
+  public async schedule<T>(queueName: string, item: QueueItem<T>): Promise<void> {
+    await this.client.zAdd(`${queueName}:scheduled`, {
+      score: item.scheduledAt.getTime(),
+      value: JSON.stringify(item),
+    });
+
+    // The consumer re-arms its timer in case this item is due before the next one it knew about
+    await this.wakeConsumer(queueName);
+  }
+
+  /**
+   * Moves scheduled items that are due onto the back of their lane
+   *
+   * @returns The number of items that became due
+   */
+  public async promoteScheduled(queueName: string, now = Date.now()): Promise<number> {
+    return (await this.client.eval(PROMOTE_SCHEDULED_SCRIPT, {
+      keys: [`${queueName}:scheduled`, ...QUEUE_PRIORITIES.map(priority => getLaneKey(queueName, priority))],
+      arguments: [now.toString()],
+    })) as number;
+  }
+
+  /**
+   * @returns Items waiting for their scheduled time, soonest first
+   */
+  public async getScheduledItems<T>(queueName: string): Promise<QueueItem<T>[]> {
+    const items = await this.client.zRange(`${queueName}:scheduled`, 0, -1);
+    return items.map(raw => this.deserializeItem<T>(raw)).filter((item): item is QueueItem<T> => item !== null);
+  }
+
+  /**
+   * @returns When the earliest retry or scheduled item of the queue is due (ms), or null if there are none
+   */
+  public async getNextDueTime(queueName: string): Promise<number | null> {
+    const [retry, scheduled] = await Promise.all([
+      this.client.zRangeWithScores(`${queueName}:retry`, 0, 0),
+      this.client.zRangeWithScores(`${queueName}:scheduled`, 0, 0),
+    ]);
+    const scores = [...retry, ...scheduled].map(entry => entry.score);
+
+    return scores.length > 0 ? Math.min(...scores) : null;
+  }
+
+  /**
+   * Calls the listener whenever the queue may have work to do: items added, retries or schedules changed
+   */
+  public async subscribeToQueue(queueName: string, listener: () => void): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate();
+      // Reconnection is handled by the client, errors must not crash the process
+      this.subscriber.on('error', error => {
+        console.error('Redis subscriber error:', error);
+      });
+      await this.subscriber.connect();
+    }
+
+    await this.subscriber.subscribe(this.getWakeupChannel(queueName), () => listener());
+  }
+
+  public async unsubscribeFromQueue(queueName: string): Promise<void> {
+    await this.subscriber?.unsubscribe(this.getWakeupChannel(queueName));
+  }
+
+  private async wakeConsumer(queueName: string): Promise<void> {
+    await this.client.publish(this.getWakeupChannel(queueName), Date.now().toString());
+  }
+
+  private getWakeupChannel(queueName: string): string {
+    return `${queueName}:wakeup`;
+  }
+
+  public async getDeadLetterCount(queueName: string): Promise<number> {
+    return await this.client.lLen(`${queueName}:dead`);
+  }
+
+  public async getDeadLetterItems<T>(queueName: string): Promise<StoredQueueItem<T>[]> {
+    const items = await this.client.lRange(`${queueName}:dead`, 0, -1);
+    return items.flatMap(raw => {
+      const item = this.deserializeItem<T>(raw);
+      return item ? [{ item, raw }] : [];
+    });
+  }
+
+  /**
+   * Moves a dead-lettered item back onto its queue as the given replacement
+   *
+   * @returns False if the item is no longer in the dead letter list
+   */
+  public async requeueDeadLetterItem<T>(queueName: string, raw: string, item: QueueItem<T>): Promise<boolean> {
+    const moved = await this.client.eval(REMOVE_DEAD_LETTER_SCRIPT, {
+      keys: [`${queueName}:dead`, getLaneKey(queueName, item.priority)],
+      arguments: [raw, JSON.stringify(item)],
+    });
+
+    if (moved !== 1) {
+      return false;
+    }
+
+    await this.wakeConsumer(queueName);
+    return true;
+  }
+
+  /**
+   * @returns False if the item is no longer in the dead letter list
+   */
+  public async removeDeadLetterItem(queueName: string, raw: string): Promise<boolean> {
+    const removed = await this.client.eval(REMOVE_DEAD_LETTER_SCRIPT, {
+      keys: [`${queueName}:dead`, queueName],
+      arguments: [raw, ''],
+    });
+    return removed === 1;
+  }
+
+  /**
+   * Empties the dead letter list
+   *
+   * @returns The removed items
+   */
+  public async purgeDeadLetter<T>(queueName: string): Promise<QueueItem<T>[]> {
+    const [items] = (await this.client.multi().lRange(`${queueName}:dead`, 0, -1).del(`${queueName}:dead`).exec()) as [
+      string[],
+      number,
+    ];
+    return items.map(raw => this.deserializeItem<T>(raw)).filter((item): item is QueueItem<T> => item !== null);
+  }
+
   public async setStatus(key: string, status: QueueStatus, ttl?: number): Promise<void> {
     await this.client.set(key, status.toString());
     if (ttl) {
@@ -178,31 +616,41 @@ export class RedisService {
     await this.client.publish(channel, message);
   }
 
-  public async setMetrics(key: string, metrics: QueueMetrics): Promise<void> {
-    await this.client.hSet(key, {
-      totalItems: metrics.totalItems.toString(),
-      processingItems: metrics.processingItems.toString(),
-      failedItems: metrics.failedItems.toString(),
-      completedItems: metrics.completedItems.toString(),
-      averageProcessingTime: metrics.averageProcessingTime.toString(),
-      lastProcessedAt: metrics.lastProcessedAt?.toISOString() || '',
-    });
+  /**
+   * Applies counter increments to several hashes in one transaction, so concurrent writers never lose an update
+   *
+   * @param updates - Fields to increment per hash, plain values to set alongside, and an optional expiry in seconds
+   */
+  public async hIncrByMany(
+    updates: { key: string; increments: Record<string, number>; values?: Record<string, string>; ttl?: number }[]
+  ): Promise<void> {
+    const transaction = this.client.multi();
+
+    for (const { key, increments, values, ttl } of updates) {
+      for (const [field, increment] of Object.entries(increments)) {
+        transaction.hIncrBy(key, field, increment);
+      }
+      if (values && Object.keys(values).length > 0) {
+        transaction.hSet(key, values);
+      }
+      if (ttl) {
+        transaction.expire(key, ttl);
+      }
+    }
+
+    await transaction.exec();
   }
 
-  public async getMetrics(key: string): Promise<QueueMetrics | null> {
-    const metrics = await this.client.hGetAll(key);
-    if (Object.keys(metrics).length === 0) {
-      return null;
+  public async hGetAllMany(keys: string[]): Promise<Record<string, string>[]> {
+    if (keys.length === 0) {
+      return [];
     }
 
-    return {
-      totalItems: parseInt(metrics.totalItems) || 0,
-      processingItems: parseInt(metrics.processingItems) || 0,
-      failedItems: parseInt(metrics.failedItems) || 0,
-      completedItems: parseInt(metrics.completedItems) || 0,
-      averageProcessingTime: parseFloat(metrics.averageProcessingTime) || 0,
-      lastProcessedAt: metrics.lastProcessedAt ? new Date(metrics.lastProcessedAt) : undefined,
-    };
+    const transaction = this.client.multi();
+    for (const key of keys) {
+      transaction.hGetAll(key);
+    }
+    return (await transaction.exec()) as unknown as Record<string, string>[];
   }
 
   // Additional methods for Self.xyz verification caching
@@ -217,4 +665,57 @@ export class RedisService {
   public async del(key: string): Promise<void> {
     await this.client.del(key);
   }
+
+  public async incr(key: string): Promise<number> {
+    return await this.client.incr(key);
+  }
+
+  public async expire(key: string, ttl: number): Promise<void> {
+    await this.client.expire(key, ttl);
+  }
+
+  public async setIfNotExists(key: string, value: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(key, value, { NX: true, EX: ttl });
+    return result === 'OK';
+  }
+
+  public async setIfExists(key: string, value: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(key, value, { XX: true, EX: ttl });
+    return result === 'OK';
+  }
+
+  public async hIncrBy(key: string, field: string, increment = 1): Promise<number> {
+    return await this.client.hIncrBy(key, field, increment);
+  }
+
+  public async hGetAll(key: string): Promise<Record<string, string>> {
+    return await this.client.hGetAll(key);
+  }
+
+  /**
+   * Prepends a value to a list, trimming the list to maxLength entries
+   */
+  public async lPush(key: string, value: string, maxLength?: number): Promise<void> {
+    const transaction = this.client.multi().lPush(key, value);
+    if (maxLength !== undefined) {
+      transaction.lTrim(key, 0, maxLength - 1);
+    }
+    await transaction.exec();
+  }
+
+  public async lRange(key: string, start: number, stop: number): Promise<string[]> {
+    return await this.client.lRange(key, start, stop);
+  }
+
+  public async zAdd(key: string, member: string, score: number): Promise<void> {
+    await this.client.zAdd(key, { score, value: member });
+  }
+
+  public async zRangeByScore(key: string, min: number, max: number): Promise<string[]> {
+    return await this.client.zRangeByScore(key, min, max);
+  }
+
+  public async zRem(key: string, member: string): Promise<void> {
+    await this.client.zRem(key, member);
+  }
 }
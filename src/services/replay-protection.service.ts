@@ -0,0 +1,135 @@
+import { config } from '../config/index.js';
+import { RedisService } from './redis.service.js';
+
+const SEEN_SIGNATURE_PREFIX = 'webhook:seen-signature';
+const ACCEPTED_COUNT_KEY = 'metrics:webhook:accepted';
+const SENDER_COUNTS_PREFIX = 'metrics:webhook:senders';
+const REJECTION_COUNTS_KEY = 'metrics:webhook:rejections';
+// Per-sender counts are kept per hour, so the set of senders stays bounded
+const SENDER_WINDOW = 3600;
+
+export type WebhookRejectionReason = 'replay' | 'stale' | 'future_timestamp' | 'invalid_timestamp';
+
+export type FreshnessResult = { fresh: true } | { fresh: false; reason: WebhookRejectionReason; ageSeconds?: number };
+
+/**
+ * Replay protection for signed webhooks
+ *
+ * A valid signature proves Yodl sent the payload, not that it was sent just now. Signatures
+ * are remembered for the freshness window, after which the age check refuses the payload anyway,
+ * so every signed payload can be used at most once. Accepted deliveries are counted in total
+ * and per sender for the current hour, refused ones per reason, so abuse shows up in metrics.
+ * Only the busiest sender's count is reported, not who it is.
+ */
+export class ReplayProtectionService {
+  private static instance: ReplayProtectionService;
+  private redis: RedisService;
+  private readonly maxAge: number;
+  private readonly clockSkew: number;
+
+  private constructor(redis: RedisService, maxAge: number, clockSkew: number) {
+    this.redis = redis;
+    this.maxAge = maxAge;
+    this.clockSkew = clockSkew;
+  }
+
+  public static getInstance(): ReplayProtectionService {
+    if (!ReplayProtectionService.instance) {
+      ReplayProtectionService.instance = new ReplayProtectionService(
+        RedisService.getInstance(config.redis.url),
+        config.webhook.maxAge,
+        config.webhook.clockSkew
+      );
+    }
+    return ReplayProtectionService.instance;
+  }
+
+  /**
+   * Parses a timestamp header given in unix seconds, unix milliseconds or ISO 8601
+   */
+  public parseTimestamp(value: string): Date | null {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return null;
+    }
+
+    const numeric = Number(trimmed);
+    const date = Number.isFinite(numeric) ? new Date(numeric < 1e12 ? numeric * 1000 : numeric) : new Date(trimmed);
+
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  public checkFreshness(timestamp: Date | null, now = Date.now()): FreshnessResult {
+    if (!timestamp) {
+      return { fresh: false, reason: 'invalid_timestamp' };
+    }
+
+    const ageSeconds = Math.round((now - timestamp.getTime()) / 1000);
+
+    if (ageSeconds < -this.clockSkew) {
+      return { fresh: false, reason: 'future_timestamp', ageSeconds };
+    }
+
+    if (ageSeconds > this.maxAge) {
+      return { fresh: false, reason: 'stale', ageSeconds };
+    }
+
+    return { fresh: true };
+  }
+
+  /**
+   * Remembers a signature for the freshness window
+   *
+   * @returns False if the signature was already seen, i.e. the request is a replay
+   */
+  public async markSignatureSeen(signature: string): Promise<boolean> {
+    return await this.redis.setIfNotExists(this.getKey(signature), Date.now().toString(), this.maxAge + this.clockSkew);
+  }
+
+  /**
+   * Forgets a signature so the sender can retry a delivery that failed on our side
+   */
+  public async forgetSignature(signature: string): Promise<void> {
+    await this.redis.del(this.getKey(signature));
+  }
+
+  public async recordAccepted(senderAddress: string, now = Date.now()): Promise<void> {
+    const key = this.getSenderCountsKey(now);
+
+    await this.redis.incr(ACCEPTED_COUNT_KEY);
+    await this.redis.hIncrBy(key, senderAddress.toLowerCase());
+    await this.redis.expire(key, SENDER_WINDOW * 2);
+  }
+
+  public async recordRejected(reason: WebhookRejectionReason): Promise<void> {
+    await this.redis.hIncrBy(REJECTION_COUNTS_KEY, reason);
+  }
+
+  public async getAcceptedCount(): Promise<number> {
+    return parseInt((await this.redis.get(ACCEPTED_COUNT_KEY)) ?? '') || 0;
+  }
+
+  /**
+   * @returns The number of webhooks accepted for the busiest sender in the current hour
+   */
+  public async getTopSenderCount(now = Date.now()): Promise<number> {
+    const counts = Object.values(this.toCounts(await this.redis.hGetAll(this.getSenderCountsKey(now))));
+    return Math.max(0, ...counts);
+  }
+
+  public async getRejectionCounts(): Promise<Record<string, number>> {
+    return this.toCounts(await this.redis.hGetAll(REJECTION_COUNTS_KEY));
+  }
+
+  private toCounts(hash: Record<string, string>): Record<string, number> {
+    return Object.fromEntries(Object.entries(hash).map(([field, count]) => [field, parseInt(count) || 0]));
+  }
+
+  private getSenderCountsKey(now: number): string {
+    return `${SENDER_COUNTS_PREFIX}:${Math.floor(now / 1000 / SENDER_WINDOW)}`;
+  }
+
+  private getKey(signature: string): string {
+    return `${SEEN_SIGNATURE_PREFIX}:${signature.toLowerCase()}`;
+  }
+}
@@ -1,8 +1,28 @@
 import { EventEmitter } from 'events';
 import { config as appConfig } from '../config/index.js';
-import { QueueStatus, StatusChangeEvent, StatusChangeHandler, ThingsBoardStatusResponse } from '../types/queue.js';
+import {
+  BeerTapQueueStateProvider,
+  BeerTapStatusOverview,
+  QueueStatus,
+  StatusChangeEvent,
+  StatusChangeHandler,
+  StatusPollEvent,
+  StatusPollHandler,
+  StatusTapRegistration,
+  ThingsBoardStatusResponse,
+} from '../types/queue.js';
+import { getStatusReaction } from '../utils/device-state.js';
 import { RedisService } from './redis.service.js';
-import { readBeerTapStatus } from './thingsboard/thingsboard-robust.service.js';
+import { getDefaultSocketFactory, ThingsBoardTelemetryClient } from './thingsboard/thingsboard-telemetry.service.js';
+
+interface TapStatusRecord extends StatusTapRegistration {
+  // Last status this instance saw, outlives the short-lived Redis status cache
+  status?: QueueStatus;
+  statusUpdatedAt?: Date;
+  remainingVolume?: number;
+  lastSuccessfulPollAt?: Date;
+  consecutiveErrors: number;
+}
 
 export class StatusManager extends EventEmitter {
   private static instance: StatusManager;
@@ -11,10 +31,16 @@ export class StatusManager extends EventEmitter {
   private readonly pollingIntervalMs: number;
   private readonly statusCacheTtl = 2; // 2 seconds TTL for status cache
   private isPolling = false;
+  private beerTaps = new Map<string, TapStatusRecord>();
+  private queueStateProvider?: BeerTapQueueStateProvider;
 
-  // Request deduplication - key: "deviceToken:serverUrl", value: Promise
+  // Request deduplication - key: beer tap ID, value: Promise
   private pendingStatusRequests = new Map<string, Promise<ThingsBoardStatusResponse>>();
 
+  // Statuses pushed over the telemetry WebSocket, only held while it is connected
+  private telemetry: ThingsBoardTelemetryClient | null = null;
+  private liveStatuses = new Map<string, QueueStatus>();
+
   private constructor(redis: RedisService, pollingIntervalMs = 5000) {
     super();
     this.redis = redis;
@@ -34,7 +60,27 @@ export class StatusManager extends EventEmitter {
     }
   }
 
+  /**
+   * Registers the beer taps whose status is polled, pushed over telemetry and reported by getAllBeerTapStatuses
+   */
+  public registerBeerTaps(beerTaps: StatusTapRegistration[]): void {
+    for (const beerTap of beerTaps) {
+      const existing = this.beerTaps.get(beerTap.beerTapId);
+      this.beerTaps.set(beerTap.beerTapId, { consecutiveErrors: 0, ...existing, ...beerTap });
+    }
+
+    this.startTelemetry();
+  }
+
+  // Supplies the queue length and in-flight item of each tap for the status overview
+  public setQueueStateProvider(provider: BeerTapQueueStateProvider): void {
+    this.queueStateProvider = provider;
+  }
+
   public async destroy(): Promise<void> {
+    this.telemetry?.stop();
+    this.telemetry = null;
+    this.liveStatuses.clear();
     this.stopStatusPolling();
     this.pendingStatusRequests.clear();
     await this.redis.disconnect();
@@ -59,18 +105,66 @@ export class StatusManager extends EventEmitter {
     this.stopStatusPolling();
   }
 
+  /**
+   * Subscribes to tap status over the ThingsBoard telemetry WebSocket
+   *
+   * Pushed statuses are served instead of ThingsBoard reads while the socket is connected. Once it
+   * drops they are discarded, so status reads go back to polling until it has reconnected.
+   */
+  private startTelemetry(): void {
+    const { serverUrl, username, password, telemetryWs } = appConfig.thingsBoard;
+    const devices = Array.from(this.beerTaps.values())
+      .map(({ beerTapId, driver }) => ({ beerTapId, ...driver.describe() }))
+      .filter(({ type }) => type === 'thingsboard')
+      .map(({ beerTapId, device }) => ({ beerTapId, deviceId: device }));
+
+    if (!telemetryWs || this.telemetry || devices.length === 0) {
+      return;
+    }
+
+    if (!username || !password) {
+      console.info('ThingsBoard telemetry WebSocket unavailable without credentials, polling tap status');
+      return;
+    }
+
+    // Node 20 only has a WebSocket with --experimental-websocket, which the start scripts pass
+    const createSocket = getDefaultSocketFactory();
+    if (!createSocket) {
+      console.error(
+        'ThingsBoard telemetry WebSocket needs Node 22+ or the --experimental-websocket flag, polling tap status'
+      );
+      return;
+    }
+
+    this.telemetry = new ThingsBoardTelemetryClient(serverUrl, username, password, createSocket);
+
+    this.telemetry.onStatus(({ beerTapId, status, remainingVolume }) => {
+      this.liveStatuses.set(beerTapId, status);
+      this.updateBeerTapStatus(beerTapId, status, remainingVolume).catch(error => {
+        console.error(`Error applying telemetry status of beer tap ${beerTapId}:`, error);
+      });
+    });
+
+    this.telemetry.onConnectionChange(connected => {
+      if (!connected) {
+        console.info('ThingsBoard telemetry disconnected, polling tap status until it reconnects');
+        this.liveStatuses.clear();
+      }
+    });
+
+    this.telemetry.start(devices);
+  }
+
   private async pollAllBeerTapStatuses(): Promise<void> {
     try {
-      for (const beerTap of appConfig.beerTaps) {
-        const beerTapId = beerTap.id || `${beerTap.transactionReceiverEns}-${beerTap.transactionCurrency}`;
+      for (const beerTapId of this.beerTaps.keys()) {
+        if (this.liveStatuses.has(beerTapId)) {
+          continue;
+        }
 
         const cachedStatus = await this.redis.getStatus(`status:${beerTapId}`);
         if (cachedStatus === null) {
-          this.getThingsBoardStatusWithDedup(
-            beerTapId,
-            beerTap.thingsBoardDeviceId,
-            beerTap.thingsBoardServerUrl
-          ).catch(error => {
+          this.readStatusWithDedup(beerTapId).catch(error => {
             console.error(`Error polling beer tap ${beerTapId}:`, error);
           });
         }
@@ -89,20 +183,27 @@ export class StatusManager extends EventEmitter {
   }
 
   // Request deduplication and caching method
-  private async getThingsBoardStatusWithDedup(
-    beerTapId: string,
-    deviceId: string,
-    serverUrl: string
-  ): Promise<ThingsBoardStatusResponse> {
-    const requestKey = `${deviceId}:${serverUrl}`;
+  private async readStatusWithDedup(beerTapId: string): Promise<ThingsBoardStatusResponse> {
+    const requestKey = beerTapId;
     const cacheKey = `status:${beerTapId}`;
 
+    const liveStatus = this.liveStatuses.get(beerTapId);
+    if (liveStatus !== undefined) {
+      return {
+        status: liveStatus,
+        timestamp: new Date(),
+        success: true,
+        remainingVolume: this.getRemainingVolume(beerTapId, liveStatus),
+      };
+    }
+
     const cachedStatus = await this.redis.getStatus(cacheKey);
     if (cachedStatus !== null) {
       return {
         status: cachedStatus,
         timestamp: new Date(),
         success: true,
+        remainingVolume: this.getRemainingVolume(beerTapId, cachedStatus),
       };
     }
 
@@ -110,18 +211,25 @@ export class StatusManager extends EventEmitter {
       return this.pendingStatusRequests.get(requestKey)!;
     }
 
-    const requestPromise = readBeerTapStatus(deviceId, {
-      serverUrl: appConfig.thingsBoard.serverUrl,
-      username: appConfig.thingsBoard.username!,
-      password: appConfig.thingsBoard.password!,
-      rpcTimeout: appConfig.thingsBoard.rpcTimeout,
-    });
+    const beerTap = this.beerTaps.get(beerTapId);
+    if (!beerTap) {
+      return {
+        status: QueueStatus.ERROR,
+        timestamp: new Date(),
+        success: false,
+        error: `Beer tap ${beerTapId} is not registered`,
+      };
+    }
 
-    const transformedPromise = requestPromise
+    const pollStartTime = Date.now();
+    const requestPromise = beerTap.driver.readStatus();
+
+    const transformedPromise: Promise<ThingsBoardStatusResponse> = requestPromise
       .then(result => ({
         status: result.status,
         timestamp: result.timestamp,
         success: true,
+        remainingVolume: result.remainingVolume,
       }))
       .catch(error => ({
         status: QueueStatus.ERROR,
@@ -135,6 +243,24 @@ export class StatusManager extends EventEmitter {
     try {
       const result = await transformedPromise;
 
+      const pollEvent: StatusPollEvent = {
+        beerTapId,
+        driver: beerTap.driver.type,
+        success: result.success,
+        status: result.status,
+        durationMs: Date.now() - pollStartTime,
+        timestamp: new Date(),
+      };
+      this.emit('statusPoll', pollEvent);
+
+      beerTap.consecutiveErrors = result.success ? 0 : beerTap.consecutiveErrors + 1;
+      if (result.success) {
+        beerTap.lastSuccessfulPollAt = pollEvent.timestamp;
+        beerTap.status = result.status;
+        beerTap.statusUpdatedAt = pollEvent.timestamp;
+        beerTap.remainingVolume = result.remainingVolume;
+      }
+
       if (result.success) {
         await this.redis.setStatus(cacheKey, result.status, this.statusCacheTtl); // Cache for 2 seconds
       }
@@ -158,13 +284,35 @@ export class StatusManager extends EventEmitter {
     return QueueStatus.READY;
   }
 
-  public async updateBeerTapStatus(beerTapId: string, newStatus: QueueStatus): Promise<void> {
+  /**
+   * Reads a tap's status from telemetry, the cache or the device, unlike getBeerTapStatus it never assumes READY
+   *
+   * @returns The status, or null if the device could not be read
+   */
+  public async readBeerTapStatus(beerTapId: string): Promise<QueueStatus | null> {
+    const statusResponse = await this.readStatusWithDedup(beerTapId);
+    return statusResponse.success ? statusResponse.status : null;
+  }
+
+  public async updateBeerTapStatus(beerTapId: string, newStatus: QueueStatus, remainingVolume?: number): Promise<void> {
     const cacheKey = `status:${beerTapId}`;
     const previousStatus = await this.redis.getStatus(cacheKey);
 
+    // A status set locally, e.g. BUSY right after a pour, holds until telemetry reports the next change
+    if (this.liveStatuses.has(beerTapId)) {
+      this.liveStatuses.set(beerTapId, newStatus);
+    }
+
     // Update status in Redis with TTL
     await this.redis.setStatus(cacheKey, newStatus, this.statusCacheTtl);
 
+    const beerTap = this.beerTaps.get(beerTapId);
+    if (beerTap) {
+      beerTap.status = newStatus;
+      beerTap.statusUpdatedAt = new Date();
+      beerTap.remainingVolume = newStatus === QueueStatus.BUSY ? remainingVolume : undefined;
+    }
+
     // If status changed, emit event
     if (previousStatus !== null && previousStatus !== newStatus) {
       const statusChangeEvent: StatusChangeEvent = {
@@ -181,24 +329,27 @@ export class StatusManager extends EventEmitter {
     }
   }
 
-  public async waitForBeerTapReady(
-    beerTapId: string,
-    deviceId: string,
-    serverUrl: string,
-    timeoutMs = 60000
-  ): Promise<boolean> {
+  /**
+   * Waits for a beer tap to become ready, as long as it is in a status it recovers from on its own
+   *
+   * @returns READY once the tap is ready, otherwise the status that ended the wait: one waiting
+   * won't fix, such as an empty keg, or the last one seen when the timeout ran out (ERROR if none)
+   */
+  public async waitForBeerTapReady(beerTapId: string, timeoutMs = 60000): Promise<QueueStatus> {
     const startTime = Date.now();
+    let lastStatus = QueueStatus.ERROR;
 
     while (Date.now() - startTime < timeoutMs) {
       try {
-        // Fetch current status from ThingsBoard (with deduplication)
-        const statusResponse = await this.getThingsBoardStatusWithDedup(beerTapId, deviceId, serverUrl);
+        // Fetch current status from the tap's device (with deduplication)
+        const statusResponse = await this.readStatusWithDedup(beerTapId);
 
         if (statusResponse.success) {
-          await this.updateBeerTapStatus(beerTapId, statusResponse.status);
+          await this.updateBeerTapStatus(beerTapId, statusResponse.status, statusResponse.remainingVolume);
 
-          if (statusResponse.status === QueueStatus.READY) {
-            return true;
+          lastStatus = statusResponse.status;
+          if (getStatusReaction(lastStatus) !== 'wait') {
+            return lastStatus;
           }
         } else {
           console.error(`Failed to check beer tap ${beerTapId} status:`, statusResponse.error);
@@ -212,28 +363,67 @@ export class StatusManager extends EventEmitter {
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
-    return false;
+    return lastStatus;
   }
 
   public onStatusChange(handler: StatusChangeHandler): void {
     this.on('statusChange', handler);
   }
 
-  public async getAllBeerTapStatuses(): Promise<Map<string, QueueStatus>> {
-    // Note: This would need to be called with specific beer tap IDs
-    // since we no longer have automatic discovery of beer tap configs
-    return new Map<string, QueueStatus>();
+  // Called for every status read from a tap's device, cached and deduplicated reads excluded
+  public onStatusPoll(handler: StatusPollHandler): void {
+    this.on('statusPoll', handler);
   }
 
-  public async forcePollBeerTapStatus(beerTapId: string, deviceId: string, serverUrl: string): Promise<QueueStatus> {
-    const statusResponse = await this.getThingsBoardStatusWithDedup(beerTapId, deviceId, serverUrl);
+  /**
+   * Overview of every registered beer tap, keyed by beer tap ID
+   *
+   * The status is the freshest one known: pushed over telemetry, cached in Redis by any instance,
+   * then the last one this instance saw. A tap whose last reads failed and that has no fresher
+   * status is reported as ERROR.
+   */
+  public async getAllBeerTapStatuses(): Promise<Map<string, BeerTapStatusOverview>> {
+    const overviews = await Promise.all(
+      Array.from(this.beerTaps.values(), async (beerTap): Promise<BeerTapStatusOverview> => {
+        const { beerTapId, statusUpdatedAt, lastSuccessfulPollAt, consecutiveErrors } = beerTap;
+        const [cachedStatus, queueState] = await Promise.all([
+          this.liveStatuses.has(beerTapId) ? null : this.redis.getStatus(`status:${beerTapId}`),
+          this.queueStateProvider?.(beerTapId) ?? { queueLength: 0 },
+        ]);
+
+        const freshStatus = this.liveStatuses.get(beerTapId) ?? cachedStatus;
+        const lastStatus = consecutiveErrors > 0 ? QueueStatus.ERROR : (beerTap.status ?? QueueStatus.READY);
+        const status = freshStatus ?? lastStatus;
+
+        return {
+          beerTapId,
+          status,
+          statusUpdatedAt,
+          lastSuccessfulPollAt,
+          consecutiveErrors,
+          remainingVolume: this.getRemainingVolume(beerTapId, status),
+          ...queueState,
+        };
+      })
+    );
+
+    return new Map(overviews.map(overview => [overview.beerTapId, overview]));
+  }
+
+  public async forcePollBeerTapStatus(beerTapId: string): Promise<QueueStatus> {
+    const statusResponse = await this.readStatusWithDedup(beerTapId);
 
     if (statusResponse.success) {
-      await this.updateBeerTapStatus(beerTapId, statusResponse.status);
+      await this.updateBeerTapStatus(beerTapId, statusResponse.status, statusResponse.remainingVolume);
       return statusResponse.status;
     } else {
       await this.updateBeerTapStatus(beerTapId, QueueStatus.ERROR);
       throw new Error(`Failed to read status: ${statusResponse.error}`);
     }
   }
+
+  // Only known for a pour this instance saw, and only while the tap is still pouring
+  private getRemainingVolume(beerTapId: string, status: QueueStatus): number | undefined {
+    return status === QueueStatus.BUSY ? this.beerTaps.get(beerTapId)?.remainingVolume : undefined;
+  }
 }
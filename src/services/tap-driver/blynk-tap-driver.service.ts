@@ -0,0 +1,86 @@
+import createHttpError from 'http-errors';
+import { TapDriver, TapDriverDescription, TapDriverHealth } from '../../types/driver.js';
+import { DeviceStatusReading } from '../../types/queue.js';
+import { resolveDeviceStatus } from '../../utils/device-state.js';
+
+export interface BlynkTapDriverConfig {
+  token: string;
+  pin: string;
+  // Sent instead of the cup size, for devices that pour a fixed volume whenever the pin is set
+  pinValue?: string;
+  // Pin the device reports the pour on, 0 once it is done, defaults to pin
+  statusPin?: string;
+  server: string;
+  timeout: number;
+}
+
+/**
+ * Tap driver for devices on the Blynk HTTP API
+ *
+ * Pours by writing the cup size to a virtual pin. The device is READY while its status pin
+ * reads 0 and BUSY otherwise, and OFFLINE when Blynk reports the hardware disconnected.
+ */
+export class BlynkTapDriver implements TapDriver {
+  public readonly type = 'blynk';
+  private config: BlynkTapDriverConfig;
+
+  constructor(config: BlynkTapDriverConfig) {
+    this.config = config;
+  }
+
+  public async trigger(cupSize: number): Promise<void> {
+    await this.request('update', { [this.config.pin]: this.config.pinValue ?? cupSize.toString() });
+  }
+
+  public async readStatus(): Promise<DeviceStatusReading> {
+    const [pinValue, connected] = await Promise.all([
+      this.request('get', { [this.config.statusPin ?? this.config.pin]: '' }),
+      this.request('isHardwareConnected'),
+    ]);
+
+    // Blynk doesn't say when a pin was last written, the reading is as of now
+    const ts = Date.now();
+    return resolveDeviceStatus({ cupSize: { value: pinValue.trim(), ts }, active: { value: connected.trim(), ts } })!;
+  }
+
+  public describe(): TapDriverDescription {
+    return { type: this.type, device: this.config.pin, server: this.config.server };
+  }
+
+  public async healthCheck(): Promise<TapDriverHealth> {
+    const startTime = Date.now();
+
+    try {
+      const connected = (await this.request('isHardwareConnected')).trim() === 'true';
+      return {
+        healthy: connected,
+        latencyMs: Date.now() - startTime,
+        error: connected ? undefined : 'Blynk reports the device disconnected',
+        checkedAt: new Date(),
+      };
+    } catch (error) {
+      return {
+        healthy: false,
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        checkedAt: new Date(),
+      };
+    }
+  }
+
+  private async request(endpoint: string, params: Record<string, string> = {}): Promise<string> {
+    const url = new URL(`/external/api/${endpoint}`, this.config.server);
+    url.searchParams.set('token', this.config.token);
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.config.timeout) });
+
+    if (!response.ok) {
+      throw createHttpError(response.status, `Blynk API error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.text();
+  }
+}
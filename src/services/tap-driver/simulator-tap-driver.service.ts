@@ -0,0 +1,84 @@
+import createHttpError from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
+import { TapDriver, TapDriverDescription, TapDriverHealth } from '../../types/driver.js';
+import { DeviceStatusReading } from '../../types/queue.js';
+import { DeviceValue, resolveDeviceStatus } from '../../utils/device-state.js';
+
+export interface SimulatorTapDriverConfig {
+  // Pour speed (ml/s)
+  pourRate: number;
+  // Volume of the keg (ml), unlimited when missing
+  kegVolume?: number;
+  // Share of pours that fail like an unavailable device would, between 0 and 1
+  failureRate: number;
+}
+
+/**
+ * In-process tap for running the whole pipeline without devices
+ *
+ * A pour keeps the tap BUSY for as long as the volume takes at the configured rate, then it
+ * is READY again. With a keg volume the tap runs empty after pouring that much.
+ */
+export class SimulatorTapDriver implements TapDriver {
+  public readonly type = 'simulator';
+  private config: SimulatorTapDriverConfig;
+  private name: string;
+  private pourVolume = 0;
+  private pourStartedAt: number;
+  private pourEndsAt: number;
+  private kegRemaining?: number;
+
+  constructor(name: string, config: SimulatorTapDriverConfig) {
+    this.name = name;
+    this.config = config;
+    this.kegRemaining = config.kegVolume;
+    // The tap starts out ready, as if its last pour ended right now
+    this.pourStartedAt = Date.now();
+    this.pourEndsAt = this.pourStartedAt;
+  }
+
+  public async trigger(cupSize: number): Promise<void> {
+    if (Math.random() < this.config.failureRate) {
+      throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, `Simulated tap ${this.name} failed to pour`);
+    }
+    if (Date.now() < this.pourEndsAt) {
+      throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, `Simulated tap ${this.name} is still pouring`);
+    }
+
+    const now = Date.now();
+    this.pourVolume = this.kegRemaining !== undefined ? Math.min(cupSize, this.kegRemaining) : cupSize;
+    this.pourStartedAt = now;
+    this.pourEndsAt = now + (this.pourVolume / this.config.pourRate) * 1000;
+
+    if (this.kegRemaining !== undefined) {
+      this.kegRemaining -= this.pourVolume;
+    }
+
+    console.info(`Simulated tap ${this.name} pouring ${this.pourVolume} ml`, { kegRemaining: this.kegRemaining });
+  }
+
+  public async readStatus(): Promise<DeviceStatusReading> {
+    const now = Date.now();
+    const pouring = now < this.pourEndsAt;
+
+    // Reported like a ThingsBoard device would, so the status resolves the same way
+    const values: Record<string, DeviceValue> = {
+      cupSize: { value: pouring ? this.pourVolume : 0, ts: pouring ? this.pourStartedAt : this.pourEndsAt },
+    };
+    if (pouring) {
+      values.remainingVolume = { value: Math.ceil(((this.pourEndsAt - now) / 1000) * this.config.pourRate), ts: now };
+    } else if (this.kegRemaining !== undefined) {
+      values.kegLevel = { value: this.kegRemaining, ts: this.pourEndsAt };
+    }
+
+    return resolveDeviceStatus(values)!;
+  }
+
+  public describe(): TapDriverDescription {
+    return { type: this.type, device: this.name };
+  }
+
+  public async healthCheck(): Promise<TapDriverHealth> {
+    return { healthy: true, latencyMs: 0, checkedAt: new Date() };
+  }
+}
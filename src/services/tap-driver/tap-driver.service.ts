@@ -0,0 +1,25 @@
+import { config, getBeerTapId } from '../../config/index.js';
+import { TapDriver } from '../../types/driver.js';
+import { BlynkTapDriver } from './blynk-tap-driver.service.js';
+import { SimulatorTapDriver } from './simulator-tap-driver.service.js';
+import { ThingsBoardTapDriver } from './thingsboard-tap-driver.service.js';
+
+type BeerTap = (typeof config.beerTaps)[0];
+
+/**
+ * Creates the driver a beer tap selects with its driver setting, ThingsBoard unless set otherwise
+ */
+export function createTapDriver(tap: BeerTap): TapDriver {
+  const driver = tap.driver;
+
+  switch (driver.type) {
+    case 'blynk':
+      return new BlynkTapDriver(driver);
+    case 'simulator':
+      return new SimulatorTapDriver(getBeerTapId(tap), driver);
+    case 'thingsboard':
+    default:
+      // The config schema requires the device ID of ThingsBoard taps
+      return new ThingsBoardTapDriver(tap.thingsBoardDeviceId!);
+  }
+}
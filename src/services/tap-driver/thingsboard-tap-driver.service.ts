@@ -0,0 +1,56 @@
+import { config } from '../../config/index.js';
+import { TapDriver, TapDriverDescription, TapDriverHealth } from '../../types/driver.js';
+import { DeviceStatusReading } from '../../types/queue.js';
+import { readBeerTapStatus, triggerBeerTap } from '../thingsboard/thingsboard-robust.service.js';
+
+/**
+ * Tap driver for devices on ThingsBoard
+ *
+ * Pours with the setCupSize RPC and reads the status from the device's attributes and telemetry,
+ * using the THINGSBOARD_* account all ThingsBoard taps share.
+ */
+export class ThingsBoardTapDriver implements TapDriver {
+  public readonly type = 'thingsboard';
+  private deviceId: string;
+
+  constructor(deviceId: string) {
+    this.deviceId = deviceId;
+  }
+
+  public async trigger(cupSize: number): Promise<void> {
+    await triggerBeerTap(this.deviceId, cupSize, this.getConfig());
+  }
+
+  public async readStatus(): Promise<DeviceStatusReading> {
+    return await readBeerTapStatus(this.deviceId, this.getConfig());
+  }
+
+  public describe(): TapDriverDescription {
+    return { type: this.type, device: this.deviceId, server: config.thingsBoard.serverUrl };
+  }
+
+  public async healthCheck(): Promise<TapDriverHealth> {
+    const startTime = Date.now();
+
+    try {
+      await this.readStatus();
+      return { healthy: true, latencyMs: Date.now() - startTime, checkedAt: new Date() };
+    } catch (error) {
+      return {
+        healthy: false,
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        checkedAt: new Date(),
+      };
+    }
+  }
+
+  private getConfig() {
+    return {
+      serverUrl: config.thingsBoard.serverUrl,
+      username: config.thingsBoard.username!,
+      password: config.thingsBoard.password!,
+      rpcTimeout: config.thingsBoard.rpcTimeout,
+    };
+  }
+}
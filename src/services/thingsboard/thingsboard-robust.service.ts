@@ -1,6 +1,12 @@
 import assert from 'assert';
 import createHttpError from 'http-errors';
-import { QueueStatus } from '../../types/queue.js';
+import { DeviceStatusReading } from '../../types/queue.js';
+import {
+  DEVICE_ATTRIBUTE_KEYS,
+  DEVICE_TELEMETRY_KEYS,
+  DeviceValue,
+  resolveDeviceStatus,
+} from '../../utils/device-state.js';
 import { ThingsBoardAuthService } from './thingsboard-auth.service.js';
 
 interface ThingsBoardConfig {
@@ -118,10 +124,7 @@ export async function communicateWithThingsBoard({
   throw lastError || new Error('ThingsBoard communication failed');
 }
 
-export async function readFromThingsBoard({
-  deviceId,
-  config,
-}: ReadFromThingsBoard): Promise<{ status: QueueStatus; timestamp: Date }> {
+export async function readFromThingsBoard({ deviceId, config }: ReadFromThingsBoard): Promise<DeviceStatusReading> {
   assert(deviceId, 'deviceId is required');
 
   initializeServices(config);
@@ -131,38 +134,47 @@ export async function readFromThingsBoard({
       throw new Error('ThingsBoard authentication not configured');
     }
 
-    // Get device attributes data (not telemetry)
-    const response = await authService.makeAuthenticatedRequest(
-      `/api/plugins/telemetry/DEVICE/${deviceId}/values/attributes`
-    );
-
-    if (!response.ok) {
-      throw createHttpError(
-        response.status,
-        `ThingsBoard attributes API error: ${response.status} ${response.statusText}`
-      );
+    // Device attributes of all scopes and the latest telemetry, together they make up the tap's state
+    const [attributesResponse, telemetryResponse] = await Promise.all([
+      authService.makeAuthenticatedRequest(
+        `/api/plugins/telemetry/DEVICE/${deviceId}/values/attributes?keys=${DEVICE_ATTRIBUTE_KEYS.join(',')}`
+      ),
+      authService.makeAuthenticatedRequest(
+        `/api/plugins/telemetry/DEVICE/${deviceId}/values/timeseries?keys=${DEVICE_TELEMETRY_KEYS.join(',')}`
+      ),
+    ]);
+
+    for (const [api, response] of [
+      ['attributes', attributesResponse],
+      ['telemetry', telemetryResponse],
+    ] as const) {
+      if (!response.ok) {
+        throw createHttpError(
+          response.status,
+          `ThingsBoard ${api} API error: ${response.status} ${response.statusText}`
+        );
+      }
     }
 
-    const attributesData = await response.json();
+    const attributesData: { key: string; value: unknown; lastUpdateTs: number }[] = await attributesResponse.json();
+    const telemetryData: Record<string, { ts: number; value: unknown }[]> = await telemetryResponse.json();
 
-    const cupSizeAttribute = attributesData.find(
-      (attr: { key: string; value: unknown; lastUpdateTs: number }) => attr.key === 'cupSize'
-    );
-    if (!cupSizeAttribute) {
-      throw new Error(`No 'cupSize' attribute found for device ${deviceId}`);
+    const values: Record<string, DeviceValue> = {};
+    for (const [key, [latest]] of Object.entries(telemetryData)) {
+      if (latest) {
+        values[key] = latest;
+      }
+    }
+    for (const { key, value, lastUpdateTs } of attributesData) {
+      values[key] = { value, ts: lastUpdateTs };
     }
 
-    const rawValue = cupSizeAttribute.value;
-    const timestamp = new Date(cupSizeAttribute.lastUpdateTs);
-
-    let status: QueueStatus;
-    if (rawValue === 0) {
-      status = QueueStatus.READY;
-    } else {
-      status = QueueStatus.BUSY;
+    const reading = resolveDeviceStatus(values);
+    if (!reading) {
+      throw new Error(`No 'cupSize' attribute found for device ${deviceId}`);
     }
 
-    return { status, timestamp };
+    return reading;
   } catch (error) {
     console.error('ThingsBoard attributes read failed:', error);
     throw error;
@@ -179,10 +191,7 @@ export async function triggerBeerTap(deviceId: string, cupSize: number, config:
   });
 }
 
-export async function readBeerTapStatus(
-  deviceId: string,
-  config: ThingsBoardConfig
-): Promise<{ status: QueueStatus; timestamp: Date }> {
+export async function readBeerTapStatus(deviceId: string, config: ThingsBoardConfig): Promise<DeviceStatusReading> {
   return await readFromThingsBoard({
     deviceId,
     config,
@@ -0,0 +1,448 @@
+import { randomBytes } from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import { StatusCodes } from 'http-status-codes';
+import { simulatorDeviceUpdateSchema, simulatorFaultSchema } from '../../schemas/simulator.schemas.js';
+import { QueueStatus } from '../../types/queue.js';
+import {
+  SimulatorDeviceState,
+  SimulatorDeviceUpdate,
+  SimulatorEndpoint,
+  SimulatorFault,
+  ThingsBoardSimulatorOptions,
+} from '../../types/simulator.js';
+import { DeviceValue, resolveDeviceStatus } from '../../utils/device-state.js';
+
+interface SimulatedDevice {
+  deviceId: string;
+  cupSize: number;
+  pourStartedAt: number;
+  pourEndsAt: number;
+  kegLevel?: number;
+  active: boolean;
+  mode: string;
+  kegEmpty: boolean;
+  flowFault: boolean;
+  pourCount: number;
+  createdAt: number;
+  // When each value was last updated (ms), values never updated date from createdAt
+  updatedAt: Record<string, number>;
+}
+
+// ThingsBoard error codes, as found in the errorCode of its error responses
+const ERROR_CODES = {
+  general: 2,
+  authentication: 10,
+  tokenExpired: 11,
+  badRequest: 31,
+};
+
+/**
+ * Simulator of the ThingsBoard REST API the beer taps are driven through
+ *
+ * Speaks the login and token refresh, the one-way RPC and the attribute and telemetry reads
+ * with ThingsBoard's paths and response shapes, so THINGSBOARD_SERVER_URL can point at it.
+ * Devices are created on first use. A setCupSize RPC starts a pour that keeps the device
+ * BUSY for as long as the volume takes at the pour rate, then cupSize is back to 0.
+ *
+ * The /simulator API injects faults and sets device values (offline, maintenance, keg empty,
+ * flow fault) to put the pipeline through the states a real tap can be in.
+ */
+export class ThingsBoardSimulator {
+  private options: ThingsBoardSimulatorOptions;
+  private devices = new Map<string, SimulatedDevice>();
+  private faults: SimulatorFault[] = [];
+  private accessTokens = new Map<string, number>();
+  private refreshTokens = new Set<string>();
+  private pendingTimers = new Set<NodeJS.Timeout>();
+  private server: Server | null = null;
+
+  constructor(options: ThingsBoardSimulatorOptions) {
+    this.options = options;
+  }
+
+  public createApp(): express.Express {
+    const app = express();
+    app.use(express.json());
+
+    app.post('/api/auth/login', this.withFaults('auth'), (request, response) => {
+      const { username, password } = request.body ?? {};
+      const { username: expectedUsername, password: expectedPassword } = this.options;
+
+      if (
+        !username ||
+        !password ||
+        (expectedUsername && username !== expectedUsername) ||
+        (expectedPassword && password !== expectedPassword)
+      ) {
+        this.sendError(response, StatusCodes.UNAUTHORIZED, 'Invalid username or password', ERROR_CODES.authentication);
+        return;
+      }
+
+      response.json(this.issueTokens());
+    });
+
+    app.post('/api/auth/token', this.withFaults('auth'), (request, response) => {
+      const { refreshToken } = request.body ?? {};
+
+      if (!refreshToken || !this.refreshTokens.delete(refreshToken)) {
+        this.sendError(response, StatusCodes.UNAUTHORIZED, 'Invalid refresh token', ERROR_CODES.tokenExpired);
+        return;
+      }
+
+      response.json(this.issueTokens());
+    });
+
+    app.post<{ deviceId: string }>(
+      '/api/rpc/oneway/:deviceId',
+      this.authenticate(),
+      this.withFaults('rpc'),
+      (request, response) => {
+        const { method, params } = request.body ?? {};
+        const device = this.getDevice(request.params.deviceId);
+
+        if (!device.active) {
+          // Non-persistent RPCs to a disconnected device time out
+          this.sendError(response, StatusCodes.GATEWAY_TIMEOUT, 'Device is offline', ERROR_CODES.general);
+          return;
+        }
+
+        if (method === 'setCupSize') {
+          const cupSize = Number(params);
+          if (!Number.isFinite(cupSize) || cupSize <= 0) {
+            this.sendError(response, StatusCodes.BAD_REQUEST, `Invalid cup size: ${params}`, ERROR_CODES.badRequest);
+            return;
+          }
+          this.startPour(device, cupSize);
+        }
+
+        // One-way RPCs are acknowledged once delivered, whatever the device does with them
+        response.status(StatusCodes.OK).end();
+      }
+    );
+
+    app.get<{ deviceId: string }>(
+      '/api/plugins/telemetry/DEVICE/:deviceId/values/attributes',
+      this.authenticate(),
+      this.withFaults('telemetry'),
+      (request, response) => {
+        const values = this.getDeviceValues(this.getDevice(request.params.deviceId));
+        const attributes = this.filterKeys(['cupSize', 'active', 'mode', 'kegEmpty'], request.query.keys);
+
+        response.json(
+          attributes
+            .filter(key => values[key])
+            .map(key => ({ key, value: values[key].value, lastUpdateTs: values[key].ts }))
+        );
+      }
+    );
+
+    app.get<{ deviceId: string }>(
+      '/api/plugins/telemetry/DEVICE/:deviceId/values/timeseries',
+      this.authenticate(),
+      this.withFaults('telemetry'),
+      (request, response) => {
+        const values = this.getDeviceValues(this.getDevice(request.params.deviceId));
+        const telemetry = this.filterKeys(['flowFault', 'remainingVolume', 'kegLevel'], request.query.keys);
+
+        // Telemetry values come back as strings, like ThingsBoard stores them
+        response.json(
+          Object.fromEntries(
+            telemetry
+              .filter(key => values[key])
+              .map(key => [key, [{ ts: values[key].ts, value: String(values[key].value) }]])
+          )
+        );
+      }
+    );
+
+    app.get('/simulator/devices', (_request, response) => {
+      response.json(this.getDevices());
+    });
+
+    app.patch('/simulator/devices/:deviceId', (request, response) => {
+      const update = simulatorDeviceUpdateSchema.safeParse(request.body);
+      if (!update.success) {
+        this.sendError(response, StatusCodes.BAD_REQUEST, update.error.message, ERROR_CODES.badRequest);
+        return;
+      }
+
+      response.json(this.updateDevice(request.params.deviceId, update.data));
+    });
+
+    app.get('/simulator/faults', (_request, response) => {
+      response.json(this.faults);
+    });
+
+    app.post('/simulator/faults', (request, response) => {
+      const fault = simulatorFaultSchema.safeParse(request.body);
+      if (!fault.success) {
+        this.sendError(response, StatusCodes.BAD_REQUEST, fault.error.message, ERROR_CODES.badRequest);
+        return;
+      }
+
+      this.injectFault(fault.data);
+      response.status(StatusCodes.CREATED).json(this.faults);
+    });
+
+    app.delete('/simulator/faults', (_request, response) => {
+      this.clearFaults();
+      response.status(StatusCodes.NO_CONTENT).end();
+    });
+
+    return app;
+  }
+
+  public async listen(port: number): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = this.createApp().listen(port);
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+    this.server = server;
+
+    console.info(`ThingsBoard simulator listening on port ${port}`, {
+      pourRate: this.options.pourRate,
+      kegVolume: this.options.kegVolume,
+    });
+  }
+
+  public async close(): Promise<void> {
+    for (const timer of this.pendingTimers) {
+      clearTimeout(timer);
+    }
+    this.pendingTimers.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  public injectFault(fault: SimulatorFault): void {
+    // Token expiry happens once, there is nothing left to apply afterwards
+    if (fault.type === 'auth_expiry') {
+      this.expireTokens();
+      return;
+    }
+
+    this.faults.push(fault);
+    console.info('ThingsBoard simulator fault injected', fault);
+  }
+
+  public clearFaults(): void {
+    this.faults = [];
+    console.info('ThingsBoard simulator faults cleared');
+  }
+
+  // Invalidates every access token, refresh tokens stay valid
+  public expireTokens(): void {
+    this.accessTokens.clear();
+    console.info('ThingsBoard simulator access tokens expired');
+  }
+
+  public updateDevice(deviceId: string, update: SimulatorDeviceUpdate): SimulatorDeviceState {
+    const device = this.getDevice(deviceId);
+    const now = Date.now();
+
+    for (const [key, value] of Object.entries(update)) {
+      if (value !== undefined) {
+        Object.assign(device, { [key]: value });
+        device.updatedAt[key] = now;
+      }
+    }
+
+    console.info(`ThingsBoard simulator device ${deviceId} updated`, update);
+    return this.getDeviceState(device);
+  }
+
+  public getDevices(): SimulatorDeviceState[] {
+    return Array.from(this.devices.values()).map(device => this.getDeviceState(device));
+  }
+
+  private getDeviceState(device: SimulatedDevice): SimulatorDeviceState {
+    const values = this.getDeviceValues(device);
+
+    return {
+      deviceId: device.deviceId,
+      cupSize: Number(values.cupSize.value),
+      remainingVolume: Number(values.remainingVolume.value),
+      kegLevel: device.kegLevel,
+      active: device.active,
+      mode: device.mode,
+      kegEmpty: device.kegEmpty,
+      flowFault: device.flowFault,
+      pourCount: device.pourCount,
+    };
+  }
+
+  private getDevice(deviceId: string): SimulatedDevice {
+    let device = this.devices.get(deviceId);
+
+    if (!device) {
+      const now = Date.now();
+      device = {
+        deviceId,
+        cupSize: 0,
+        pourStartedAt: now,
+        pourEndsAt: now,
+        kegLevel: this.options.kegVolume,
+        active: true,
+        mode: 'serving',
+        kegEmpty: false,
+        flowFault: false,
+        pourCount: 0,
+        createdAt: now,
+        updatedAt: {},
+      };
+      this.devices.set(deviceId, device);
+    }
+
+    return device;
+  }
+
+  private startPour(device: SimulatedDevice, cupSize: number): void {
+    // A device only pours when it can serve, like a real tap it ignores the RPC otherwise
+    const reading = resolveDeviceStatus(this.getDeviceValues(device));
+    if (reading?.status !== QueueStatus.READY) {
+      console.info(`ThingsBoard simulator device ${device.deviceId} ignored a pour`, {
+        status: reading ? QueueStatus[reading.status] : undefined,
+      });
+      return;
+    }
+
+    const now = Date.now();
+    const volume = device.kegLevel !== undefined ? Math.min(cupSize, device.kegLevel) : cupSize;
+
+    device.cupSize = cupSize;
+    device.pourStartedAt = now;
+    device.pourEndsAt = now + (volume / this.options.pourRate) * 1000;
+    device.pourCount++;
+    if (device.kegLevel !== undefined) {
+      device.kegLevel -= volume;
+      device.updatedAt.kegLevel = now;
+    }
+
+    console.info(`ThingsBoard simulator device ${device.deviceId} pouring ${volume} ml`, {
+      kegLevel: device.kegLevel,
+    });
+  }
+
+  // The device's attributes and latest telemetry, with a finished pour settled first
+  private getDeviceValues(device: SimulatedDevice): Record<string, DeviceValue> {
+    const now = Date.now();
+    const stuck = this.faults.some(
+      fault => fault.type === 'stuck_busy' && (!fault.deviceId || fault.deviceId === device.deviceId)
+    );
+
+    if (device.cupSize > 0 && !stuck && now >= device.pourEndsAt) {
+      device.cupSize = 0;
+      device.updatedAt.cupSize = device.pourEndsAt;
+    }
+
+    const pouring = device.cupSize > 0;
+    const remainingVolume = pouring
+      ? Math.max(Math.ceil(((device.pourEndsAt - now) / 1000) * this.options.pourRate), 0)
+      : 0;
+    const { createdAt } = device;
+
+    const values: Record<string, DeviceValue> = {
+      cupSize: { value: device.cupSize, ts: pouring ? device.pourStartedAt : (device.updatedAt.cupSize ?? createdAt) },
+      active: { value: device.active, ts: device.updatedAt.active ?? createdAt },
+      mode: { value: device.mode, ts: device.updatedAt.mode ?? createdAt },
+      kegEmpty: { value: device.kegEmpty, ts: device.updatedAt.kegEmpty ?? createdAt },
+      flowFault: { value: device.flowFault, ts: device.updatedAt.flowFault ?? createdAt },
+      remainingVolume: { value: remainingVolume, ts: pouring ? now : (device.updatedAt.cupSize ?? createdAt) },
+    };
+    if (device.kegLevel !== undefined) {
+      values.kegLevel = { value: device.kegLevel, ts: device.updatedAt.kegLevel ?? createdAt };
+    }
+
+    return values;
+  }
+
+  private filterKeys(available: string[], keys: unknown): string[] {
+    if (typeof keys !== 'string' || keys.length === 0) {
+      return available;
+    }
+
+    const requested = keys.split(',');
+    return available.filter(key => requested.includes(key));
+  }
+
+  private issueTokens(): { token: string; refreshToken: string } {
+    const token = randomBytes(24).toString('hex');
+    const refreshToken = randomBytes(24).toString('hex');
+
+    this.accessTokens.set(token, Date.now() + this.options.tokenTtl * 1000);
+    this.refreshTokens.add(refreshToken);
+
+    return { token, refreshToken };
+  }
+
+  private authenticate() {
+    return (request: Request, response: Response, next: NextFunction) => {
+      const token = request.header('X-Authorization')?.replace(/^Bearer\s+/i, '');
+      const expiresAt = token ? this.accessTokens.get(token) : undefined;
+
+      if (!token || expiresAt === undefined || expiresAt <= Date.now()) {
+        if (token) {
+          this.accessTokens.delete(token);
+        }
+        this.sendError(response, StatusCodes.UNAUTHORIZED, 'Token has expired', ERROR_CODES.tokenExpired);
+        return;
+      }
+
+      next();
+    };
+  }
+
+  // Applies the first timeout or server error fault matching the request, if there is one
+  private withFaults(endpoint: SimulatorEndpoint) {
+    return (request: Request, response: Response, next: NextFunction) => {
+      const deviceId = request.params.deviceId;
+      const fault = this.faults.find(
+        ({ type, deviceId: faultDeviceId, endpoints }) =>
+          (type === 'timeout' || type === 'server_error') &&
+          (!faultDeviceId || faultDeviceId === deviceId) &&
+          (!endpoints || endpoints.includes(endpoint))
+      );
+
+      if (!fault) {
+        next();
+        return;
+      }
+
+      if (fault.count !== undefined && --fault.count <= 0) {
+        this.faults = this.faults.filter(active => active !== fault);
+      }
+
+      if (fault.type === 'server_error') {
+        const status = fault.status ?? StatusCodes.INTERNAL_SERVER_ERROR;
+        this.sendError(response, status, 'Simulated server error', ERROR_CODES.general);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.pendingTimers.delete(timer);
+        this.sendError(response, StatusCodes.GATEWAY_TIMEOUT, 'Simulated request timeout', ERROR_CODES.general);
+      }, fault.delayMs ?? 30000);
+      this.pendingTimers.add(timer);
+    };
+  }
+
+  // Errors come back in ThingsBoard's error format
+  private sendError(response: Response, status: number, message: string, errorCode: number): void {
+    if (response.headersSent) {
+      return;
+    }
+
+    response.status(status).json({ status, message, errorCode, timestamp: Date.now() });
+  }
+}
@@ -0,0 +1,276 @@
+import { EventEmitter } from 'events';
+import { QueueStatus } from '../../types/queue.js';
+import {
+  DEVICE_ATTRIBUTE_KEYS,
+  DEVICE_TELEMETRY_KEYS,
+  DeviceValue,
+  resolveDeviceStatus,
+} from '../../utils/device-state.js';
+import { ThingsBoardAuthService } from './thingsboard-auth.service.js';
+
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * The part of the WebSocket API the client uses, so a local stand-in can replace the real socket
+ */
+export interface TelemetrySocket {
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+}
+
+export type TelemetrySocketFactory = (url: string) => TelemetrySocket;
+
+export interface TelemetryDevice {
+  beerTapId: string;
+  deviceId: string;
+}
+
+export interface TelemetryStatusUpdate {
+  beerTapId: string;
+  status: QueueStatus;
+  remainingVolume?: number;
+  timestamp: Date;
+}
+
+interface SubscriptionUpdate {
+  subscriptionId?: number;
+  errorCode?: number;
+  errorMsg?: string | null;
+  data?: Record<string, [number, unknown][]>;
+}
+
+/**
+ * Uses the runtime's WebSocket when it has one (Node 22+, or Node 20 with --experimental-websocket)
+ */
+export function getDefaultSocketFactory(): TelemetrySocketFactory | null {
+  if (typeof globalThis.WebSocket !== 'function') {
+    return null;
+  }
+  return url => new globalThis.WebSocket(url) as unknown as TelemetrySocket;
+}
+
+/**
+ * ThingsBoard telemetry WebSocket client pushing the status of beer taps as it changes
+ *
+ * @description
+ * Subscribes to the status attributes and telemetry of every device on /api/ws/plugins/telemetry.
+ * ThingsBoard answers each subscription with the current values and then sends every change,
+ * the status is resolved from the latest values the same way as from the REST API.
+ *
+ * When the connection drops the client reconnects with exponential backoff and subscribes all
+ * devices again. Callers should fall back to polling while isConnected() is false.
+ */
+export class ThingsBoardTelemetryClient extends EventEmitter {
+  private auth: ThingsBoardAuthService;
+  private readonly socketUrl: string;
+  private createSocket: TelemetrySocketFactory;
+  private socket: TelemetrySocket | null = null;
+  private devices: TelemetryDevice[] = [];
+  // Subscription command ID to beer tap, rebuilt on every connection
+  private subscriptions = new Map<number, string>();
+  // Latest device values of each beer tap, by attribute or telemetry key
+  private deviceValues = new Map<string, Record<string, DeviceValue>>();
+  private nextCmdId = 1;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isOpen = false;
+
+  constructor(
+    serverUrl: string,
+    username: string,
+    password: string,
+    createSocket: TelemetrySocketFactory,
+    auth = new ThingsBoardAuthService(serverUrl, username, password)
+  ) {
+    super();
+    this.auth = auth;
+    this.createSocket = createSocket;
+
+    const url = new URL('/api/ws/plugins/telemetry', serverUrl);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    this.socketUrl = url.toString();
+  }
+
+  public start(devices: TelemetryDevice[]): void {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.devices = devices;
+    this.isRunning = true;
+    this.connect();
+  }
+
+  public stop(): void {
+    this.isRunning = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setOpen(false);
+  }
+
+  public isConnected(): boolean {
+    return this.isOpen;
+  }
+
+  public onStatus(handler: (update: TelemetryStatusUpdate) => void): void {
+    this.on('status', handler);
+  }
+
+  public onConnectionChange(handler: (connected: boolean) => void): void {
+    this.on('connection', handler);
+  }
+
+  private async connect(): Promise<void> {
+    let token: string;
+
+    try {
+      token = await this.auth.getValidToken();
+    } catch (error) {
+      console.error('ThingsBoard telemetry authentication failed:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    if (!this.isRunning) {
+      return;
+    }
+
+    let socket: TelemetrySocket;
+
+    try {
+      socket = this.createSocket(`${this.socketUrl}?token=${encodeURIComponent(token)}`);
+    } catch (error) {
+      console.error('ThingsBoard telemetry connection failed:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.subscribeAll(socket);
+      this.setOpen(true);
+      console.info('ThingsBoard telemetry connected', { devices: this.devices.length });
+    };
+
+    socket.onmessage = event => {
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = event => {
+      console.error('ThingsBoard telemetry socket error:', event instanceof Error ? event.message : event);
+    };
+
+    socket.onclose = () => {
+      // A socket replaced by stop() or a reconnect closes late, only the current one counts
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      this.setOpen(false);
+      this.scheduleReconnect();
+    };
+  }
+
+  private subscribeAll(socket: TelemetrySocket): void {
+    this.subscriptions.clear();
+    this.deviceValues.clear();
+
+    const subscribe = (beerTapId: string, deviceId: string, keys: string[]) => {
+      const cmdId = this.nextCmdId++;
+      this.subscriptions.set(cmdId, beerTapId);
+      return { entityType: 'DEVICE', entityId: deviceId, keys: keys.join(','), cmdId };
+    };
+
+    const attrSubCmds = this.devices.map(({ beerTapId, deviceId }) =>
+      subscribe(beerTapId, deviceId, DEVICE_ATTRIBUTE_KEYS)
+    );
+    const tsSubCmds = this.devices.map(({ beerTapId, deviceId }) =>
+      subscribe(beerTapId, deviceId, DEVICE_TELEMETRY_KEYS)
+    );
+
+    socket.send(JSON.stringify({ attrSubCmds, tsSubCmds, historyCmds: [] }));
+  }
+
+  private handleMessage(raw: unknown): void {
+    let message: SubscriptionUpdate;
+
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      console.error('Ignoring malformed ThingsBoard telemetry message');
+      return;
+    }
+
+    const beerTapId = message.subscriptionId !== undefined ? this.subscriptions.get(message.subscriptionId) : undefined;
+    if (!beerTapId) {
+      return;
+    }
+
+    if (message.errorCode) {
+      console.error('ThingsBoard telemetry subscription failed', {
+        beerTapId,
+        errorCode: message.errorCode,
+        error: message.errorMsg,
+      });
+      return;
+    }
+
+    const values = this.deviceValues.get(beerTapId) ?? {};
+    for (const [key, entries] of Object.entries(message.data ?? {})) {
+      if (entries.length === 0) {
+        continue;
+      }
+      const [ts, value] = entries.reduce((latest, entry) => (entry[0] > latest[0] ? entry : latest));
+      values[key] = { value, ts };
+    }
+    this.deviceValues.set(beerTapId, values);
+
+    // Nothing to report until the cupSize attribute has come in
+    const reading = resolveDeviceStatus(values);
+    if (!reading) {
+      return;
+    }
+
+    const update: TelemetryStatusUpdate = { beerTapId, ...reading };
+    this.emit('status', update);
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.isRunning || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(MIN_RECONNECT_DELAY * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private setOpen(open: boolean): void {
+    if (this.isOpen === open) {
+      return;
+    }
+
+    this.isOpen = open;
+    this.emit('connection', open);
+  }
+}
@@ -1,74 +1,224 @@
-import createHttpError from 'http-errors';
-import { ReasonPhrases } from 'http-status-codes';
+import createHttpError, { HttpError } from 'http-errors';
+import { StatusCodes } from 'http-status-codes';
 import { config } from '../config/index.js';
-import { Payment, TransactionResponse } from '../types/transaction.js';
-
-export async function fetchTransaction(txHash: string, logger?: any): Promise<Payment> {
-  const startTime = Date.now();
-  const url = `${config.yodl.indexerUrl}/v1/payments/${txHash}`;
-  
-  logger?.info('Fetching transaction from YODL indexer', {
-    txHash,
-    url,
-    startTime,
-  });
-
-  try {
-    const response = await fetch(url);
-    const fetchDuration = Date.now() - startTime;
-
-    logger?.info('YODL indexer response received', {
-      txHash,
-      status: response.status,
-      statusText: response.statusText,
-      headers: Object.fromEntries(response.headers.entries()),
-      fetchDuration,
-    });
-
-    if (!response.ok) {
-      logger?.error('YODL indexer request failed', {
+import { Logger } from '../types/logger.js';
+import { Payment, PaymentLookupResult, PaymentSource, TransactionResponse } from '../types/transaction.js';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
+import { RedisService } from './redis.service.js';
+
+interface YodlIndexerConfig {
+  indexerUrl: string;
+  timeout: number;
+  maxRetries: number;
+  retryBaseDelay: number;
+  pendingGrace: number;
+  cacheTtl: number;
+  breakerThreshold: number;
+  breakerCooldown: number;
+}
+
+// Network failures, timeouts, 429s and 5xx responses, everything else is not worth another try
+class RetryableIndexerError extends Error {}
+
+/**
+ * Client for the YODL indexer payments API
+ *
+ * Every lookup is bounded by a timeout and retried with full-jitter backoff on
+ * network errors, 429s and 5xx responses. Repeated failures open a circuit breaker
+ * so that a down indexer fails fast instead of tying up webhook requests. Other 4xx
+ * responses are about the request rather than the indexer, they are neither retried
+ * nor counted against the breaker. A malformed response body is not retried either.
+ *
+ * Webhooks can arrive before the indexer has picked the payment up. A 404 within
+ * `pendingGrace` of the first lookup for a transaction is reported as `pending`
+ * rather than as an error. Fetched payments are immutable, so they are cached in Redis.
+ */
+export class YodlIndexerClient implements PaymentSource {
+  private static instance: YodlIndexerClient;
+  public readonly name = 'indexer';
+  private redis: RedisService;
+  private config: YodlIndexerConfig;
+  private breaker: CircuitBreaker;
+
+  private constructor(redis: RedisService, indexerConfig: YodlIndexerConfig) {
+    this.redis = redis;
+    this.config = indexerConfig;
+    this.breaker = new CircuitBreaker(indexerConfig.breakerThreshold, indexerConfig.breakerCooldown);
+  }
+
+  public static getInstance(): YodlIndexerClient {
+    if (!YodlIndexerClient.instance) {
+      YodlIndexerClient.instance = new YodlIndexerClient(RedisService.getInstance(config.redis.url), {
+        indexerUrl: config.yodl.indexerUrl,
+        ...config.yodl.indexer,
+      });
+    }
+    return YodlIndexerClient.instance;
+  }
+
+  /**
+   * Looks up a payment, distinguishing "not indexed yet" from real failures
+   *
+   * @throws {HttpError} - 404 if the payment is still unknown after the grace window
+   * @throws {HttpError} - 4xx with the indexer's status if it refuses the lookup as a client error
+   * @throws {HttpError} - 503 if the circuit breaker is open
+   * @throws {HttpError} - 502 if the indexer keeps failing after all retries or answers with a malformed body
+   */
+  public async lookupPayment(txHash: string, logger?: Logger): Promise<PaymentLookupResult> {
+    const cacheKey = `indexer:payment:${txHash.toLowerCase()}`;
+
+    const cached = await this.redis.get(cacheKey);
+    if (cached) {
+      try {
+        return { status: 'found', payment: JSON.parse(cached) as Payment, source: this.name, cached: true };
+      } catch {
+        await this.redis.del(cacheKey);
+      }
+    }
+
+    if (!this.breaker.canRequest()) {
+      logger?.warn('YODL indexer circuit breaker open, refusing lookup', { txHash });
+      throw createHttpError(StatusCodes.SERVICE_UNAVAILABLE, 'YODL indexer temporarily unavailable');
+    }
+
+    let response: Response | null;
+    try {
+      response = await this.fetchWithRetries(txHash, logger);
+      this.breaker.recordSuccess();
+    } catch (error) {
+      if (error instanceof HttpError && error.statusCode < StatusCodes.INTERNAL_SERVER_ERROR) {
+        // The indexer answered, so a half-open breaker can close again
+        this.breaker.recordSuccess();
+        logger?.error('YODL indexer refused lookup', { txHash, status: error.statusCode, error: error.message });
+        throw error;
+      }
+
+      this.breaker.recordFailure();
+      logger?.error('YODL indexer lookup failed', {
         txHash,
-        status: response.status,
-        statusText: response.statusText,
-        url,
-        fetchDuration,
+        error: error instanceof Error ? error.message : String(error),
+        breakerState: this.breaker.getState(),
       });
-      throw createHttpError(response.status, ReasonPhrases.INTERNAL_SERVER_ERROR);
+      throw createHttpError(StatusCodes.BAD_GATEWAY, 'Failed to fetch transaction from YODL indexer');
+    }
+
+    let payment: Payment | null = null;
+    if (response) {
+      try {
+        payment = ((await response.json()) as TransactionResponse).payment;
+      } catch (error) {
+        logger?.error('Malformed YODL indexer response', {
+          txHash,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw createHttpError(StatusCodes.BAD_GATEWAY, 'Malformed response from YODL indexer');
+      }
+    }
+
+    if (payment) {
+      if (this.config.cacheTtl > 0) {
+        await this.redis.setex(cacheKey, this.config.cacheTtl, JSON.stringify(payment));
+      }
+      return { status: 'found', payment, source: this.name, cached: false };
+    }
+
+    const firstSeenAt = await this.getFirstSeenAt(txHash);
+    if (Date.now() - firstSeenAt.getTime() < this.config.pendingGrace) {
+      logger?.info('Payment not indexed yet, within grace window', { txHash, firstSeenAt });
+      return { status: 'pending', firstSeenAt };
     }
 
-    const responseData = (await response.json()) as TransactionResponse;
-    const totalDuration = Date.now() - startTime;
-
-    logger?.info('Transaction successfully fetched and parsed', {
-      txHash,
-      payment: {
-        senderAddress: responseData.payment.senderAddress,
-        receiverAddress: responseData.payment.receiverAddress,
-        receiverEnsPrimaryName: responseData.payment.receiverEnsPrimaryName,
-        invoiceAmount: responseData.payment.invoiceAmount,
-        invoiceCurrency: responseData.payment.invoiceCurrency,
-        memo: responseData.payment.memo,
-      },
-      totalDuration,
-    });
-
-    return responseData.payment;
-  } catch (error) {
-    const errorDuration = Date.now() - startTime;
-    
-    logger?.error('Failed to fetch transaction', {
-      txHash,
-      url,
-      error: error instanceof Error ? error.message : String(error),
-      errorDuration,
-    });
-
-    // Re-throw if it's already an HTTP error
-    if (error instanceof Error && 'statusCode' in error) {
-      throw error;
+    logger?.error('Payment not found in YODL indexer after grace window', { txHash, firstSeenAt });
+    throw createHttpError(StatusCodes.NOT_FOUND, 'Transaction not found');
+  }
+
+  /**
+   * Fetches a payment that must already be indexed
+   *
+   * @throws {HttpError} - 404 if the payment is not indexed (yet), see lookupPayment for the others
+   */
+  public async fetchPayment(txHash: string, logger?: Logger): Promise<Payment> {
+    const result = await this.lookupPayment(txHash, logger);
+    if (result.status === 'pending') {
+      throw createHttpError(StatusCodes.NOT_FOUND, 'Transaction not indexed yet');
+    }
+    return result.payment;
+  }
+
+  public getCircuitState() {
+    return this.breaker.getState();
+  }
+
+  /**
+   * @returns The successful response, or null if the indexer answered 404
+   */
+  private async fetchWithRetries(txHash: string, logger?: Logger): Promise<Response | null> {
+    const url = `${this.config.indexerUrl}/v1/payments/${txHash}`;
+
+    for (let attempt = 0; ; attempt++) {
+      const startTime = Date.now();
+
+      try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(this.config.timeout) }).catch(error => {
+          // fetch rejects with a TimeoutError on timeout and a TypeError when the indexer can't be reached
+          throw new RetryableIndexerError(error instanceof Error ? `${error.name}: ${error.message}` : String(error));
+        });
+        const fetchDuration = Date.now() - startTime;
+
+        logger?.info('YODL indexer response received', {
+          txHash,
+          status: response.status,
+          attempt,
+          fetchDuration,
+        });
+
+        if (response.status === StatusCodes.NOT_FOUND) {
+          return null;
+        }
+
+        if (response.status === StatusCodes.TOO_MANY_REQUESTS || response.status >= 500) {
+          throw new RetryableIndexerError(`YODL indexer error: ${response.status} ${response.statusText}`);
+        }
+
+        if (response.status >= 400) {
+          throw createHttpError(response.status, `YODL indexer error: ${response.status} ${response.statusText}`);
+        }
+
+        if (!response.ok) {
+          throw new Error(`YODL indexer error: ${response.status} ${response.statusText}`);
+        }
+
+        return response;
+      } catch (error) {
+        if (!(error instanceof RetryableIndexerError) || attempt >= this.config.maxRetries) {
+          throw error;
+        }
+
+        // Full jitter: wait a random time up to the exponential backoff ceiling
+        const delay = Math.random() * this.config.retryBaseDelay * Math.pow(2, attempt);
+
+        logger?.warn('YODL indexer request failed, retrying', {
+          txHash,
+          attempt,
+          delay: Math.round(delay),
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async getFirstSeenAt(txHash: string): Promise<Date> {
+    const key = `indexer:first-seen:${txHash.toLowerCase()}`;
+    const now = Date.now();
+    const ttl = Math.max(Math.ceil(this.config.pendingGrace / 1000) * 2, 60);
+
+    if (await this.redis.setIfNotExists(key, now.toString(), ttl)) {
+      return new Date(now);
     }
 
-    // Wrap other errors
-    throw createHttpError(500, `Failed to fetch transaction: ${error instanceof Error ? error.message : String(error)}`);
+    const stored = Number(await this.redis.get(key));
+    return new Date(Number.isFinite(stored) && stored > 0 ? stored : now);
   }
 }
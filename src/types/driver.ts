@@ -0,0 +1,38 @@
+import type { DeviceStatusReading } from './queue.js';
+
+export type TapDriverType = 'thingsboard' | 'blynk' | 'simulator';
+
+// What a driver talks to, secrets such as device tokens left out
+export interface TapDriverDescription {
+  type: TapDriverType;
+  device: string;
+  server?: string;
+}
+
+export interface TapDriverHealth {
+  healthy: boolean;
+  latencyMs: number;
+  error?: string;
+  checkedAt: Date;
+}
+
+export interface TapDriverReport {
+  beerTapId: string;
+  driver: TapDriverDescription;
+  health: TapDriverHealth;
+}
+
+/**
+ * The device behind a beer tap
+ *
+ * Failed calls throw, with an HttpError carrying the device API's status where there is one,
+ * so the queue can tell failures worth retrying from the rest.
+ */
+export interface TapDriver {
+  readonly type: TapDriverType;
+  // Pours a cup of the given volume (ml)
+  trigger(cupSize: number): Promise<void>;
+  readStatus(): Promise<DeviceStatusReading>;
+  describe(): TapDriverDescription;
+  healthCheck(): Promise<TapDriverHealth>;
+}
@@ -0,0 +1,22 @@
+export interface FxRate {
+  from: string;
+  to: string;
+  rate: number;
+  source: string;
+  fetchedAt: Date;
+}
+
+export interface FxRateProvider {
+  readonly name: string;
+  getRate(from: string, to: string): Promise<FxRate>;
+}
+
+export interface CurrencyConversion {
+  fromCurrency: string;
+  toCurrency: string;
+  originalAmount: string;
+  convertedAmount: string;
+  rate: number;
+  source: string;
+  fetchedAt: Date;
+}
@@ -0,0 +1,5 @@
+/**
+ * Minimal logger shape satisfied by both the express-zod-api request logger and console,
+ * for services that run inside requests as well as in background workers
+ */
+export type Logger = Record<'info' | 'warn' | 'error', (message: string, meta?: unknown) => void>;
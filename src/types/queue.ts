@@ -1,14 +1,34 @@
+import type { ParsedMemo } from '../utils/memo-parser.js';
+import type { TapDriver, TapDriverType } from './driver.js';
+import { CurrencyConversion } from './fx.js';
+
 export enum QueueStatus {
   READY = 0,
+  // Pouring, see remainingVolume for what is left of the pour
   BUSY = 1,
   PROCESSING = 2,
   ERROR = 3,
+  // ThingsBoard reports the device inactive
+  OFFLINE = 4,
+  KEG_EMPTY = 5,
+  // Being cleaned or serviced
+  MAINTENANCE = 6,
+  // The flow sensor reported a fault, pours can't be trusted until it is cleared
+  FLOW_FAULT = 7,
 }
 
 export enum RetryStrategy {
   EXPONENTIAL = 'exponential',
   LINEAR = 'linear',
   CONSTANT = 'constant',
+  // Random delay between the base delay and three times the previous one, spreads out retries of a shared outage
+  DECORRELATED_JITTER = 'decorrelated_jitter',
+}
+
+export enum QueuePriority {
+  HIGH = 'high',
+  NORMAL = 'normal',
+  LOW = 'low',
 }
 
 export interface QueueItem<T = unknown> {
@@ -21,6 +41,33 @@ export interface QueueItem<T = unknown> {
   lastAttemptAt?: Date;
   errors: string[];
   beerTapId?: string;
+  // Missing on items queued before priority lanes existed, they are served as normal
+  priority?: QueuePriority;
+  // Service order across lanes, lowest first: enqueue time shifted by the lane's head start (ms)
+  rank?: number;
+  // Delay before the latest retry (ms), the decorrelated jitter strategy grows the next one from it
+  lastRetryDelay?: number;
+  // Why the item was dead-lettered
+  deadLetterReason?: FailureReasonCode;
+}
+
+export interface StoredQueueItem<T = unknown> {
+  item: QueueItem<T>;
+  // The item exactly as stored in its Redis list, needed to remove it again
+  raw: string;
+}
+
+export type ReservedQueueItem<T = unknown> = StoredQueueItem<T>;
+
+export type QueueFollowUp<T = unknown> =
+  { type: 'retry'; item: QueueItem<T>; retryAt: Date } | { type: 'dead_letter'; item: QueueItem<T> };
+
+export interface TapLockInfo {
+  beerTapId: string;
+  owner: string | null;
+  fencingToken: number | null;
+  expiresInMs: number | null;
+  ownedByThisInstance: boolean;
 }
 
 export interface QueueConfig {
@@ -31,16 +78,56 @@ export interface QueueConfig {
   concurrency: number;
   statusPollingInterval: number;
   deadLetterQueueEnabled: boolean;
+  leaseDuration: number;
+  reaperInterval: number;
+  // Fallback poll for missed wakeups (ms), work is normally picked up through pub/sub and due timers
+  pollingInterval: number;
+  // How far ahead of the enqueue time each lane's items are ranked (ms), negative to hold a lane back
+  priorityHeadStarts: Record<QueuePriority, number>;
+}
+
+export interface PriorityPolicy {
+  highHeadStart: number;
+  lowDelay: number;
+  // Sender addresses or ENS names whose pours go to another lane than normal
+  wallets: Record<string, QueuePriority>;
 }
 
 export interface BeerTapQueueItem {
   transactionHash: string;
+  paymentIndex: number;
   beerTapId: string;
   receiverEns: string;
   memo: string;
   currency: string;
   amount: string;
+  quantity: number;
+  cupSize: number;
+  cupsPoured?: number;
+  orderReference?: string;
+  conversion?: CurrencyConversion;
   timestamp: Date;
+  // When the webhook (or the pending verification) first came in, missing on items queued before it was tracked
+  receivedAt?: Date;
+  // Set on delayed pours, the customer only starts waiting from here
+  pourAt?: Date;
+  // Set once the item was handed over to another tap because this one's keg ran empty
+  reroutedTo?: string;
+  // The taps the item was handed over from, oldest first, so it never goes round in a loop
+  reroutedFrom?: string[];
+}
+
+export interface PourPlan {
+  quantity: number;
+  cupSize: number;
+}
+
+export interface WebhookOrder {
+  memo: ParsedMemo;
+  pour: PourPlan;
+  conversion?: CurrencyConversion;
+  scheduledAt?: Date;
+  receivedAt?: Date;
 }
 
 export interface StatusChangeEvent {
@@ -50,6 +137,43 @@ export interface StatusChangeEvent {
   timestamp: Date;
 }
 
+export interface StatusPollEvent {
+  beerTapId: string;
+  driver: TapDriverType;
+  success: boolean;
+  status: QueueStatus;
+  durationMs: number;
+  timestamp: Date;
+}
+
+export interface StatusTapRegistration {
+  beerTapId: string;
+  driver: TapDriver;
+}
+
+// The item a beer tap is pouring right now, on any instance
+export interface InFlightItem {
+  itemId: string;
+  quantity: number;
+  cupsPoured: number;
+}
+
+export interface BeerTapQueueState {
+  queueLength: number;
+  inFlightItem?: InFlightItem;
+}
+
+export interface BeerTapStatusOverview extends BeerTapQueueState {
+  beerTapId: string;
+  status: QueueStatus;
+  statusUpdatedAt?: Date;
+  lastSuccessfulPollAt?: Date;
+  // Failed ThingsBoard reads since the last successful one
+  consecutiveErrors: number;
+  // Volume left of the pour in progress (ml)
+  remainingVolume?: number;
+}
+
 export interface QueueEvent<T = unknown> {
   type: 'item_added' | 'item_processing' | 'item_completed' | 'item_failed' | 'item_retry' | 'status_changed';
   queueId: string;
@@ -66,6 +190,37 @@ export interface QueueMetrics {
   completedItems: number;
   averageProcessingTime: number;
   lastProcessedAt?: Date;
+  retriedItems: number;
+}
+
+export type LatencyMetric = 'processing_time' | 'time_to_pour';
+
+// Latencies in ms, estimated from histogram buckets, null while nothing was recorded
+export interface LatencySummary {
+  count: number;
+  average: number | null;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+export interface QueueMetricsWindow {
+  completedItems: number;
+  failedItems: number;
+  retriedItems: number;
+  processingTime: LatencySummary;
+  // From webhook receipt, or the scheduled time of a delayed pour, to the tap being triggered
+  timeToPour: LatencySummary;
+}
+
+export interface TapMetrics {
+  beerTapId: string;
+  queueLength: number;
+  processingItems: number;
+  lastProcessedAt?: Date;
+  lastHour: QueueMetricsWindow;
+  lastDay: QueueMetricsWindow;
+  allTime: QueueMetricsWindow;
 }
 
 export interface ThingsBoardStatusResponse {
@@ -73,6 +228,40 @@ export interface ThingsBoardStatusResponse {
   timestamp: Date;
   success: boolean;
   error?: string;
+  remainingVolume?: number;
+}
+
+export interface DeviceStatusReading {
+  status: QueueStatus;
+  timestamp: Date;
+  // Volume left of the pour in progress (ml), only reported while BUSY
+  remainingVolume?: number;
+}
+
+export type FailureClass = 'retryable' | 'terminal';
+
+export type FailureReasonCode =
+  // Retryable
+  | 'timeout'
+  | 'device_unavailable'
+  | 'device_not_ready'
+  | 'device_offline'
+  | 'tap_maintenance'
+  | 'rate_limited'
+  | 'lock_lost'
+  | 'unknown'
+  // Terminal
+  | 'device_rejected'
+  | 'device_not_found'
+  | 'tap_misconfigured'
+  | 'keg_empty'
+  | 'flow_fault'
+  // Retryable failures that ran out of attempts
+  | 'max_attempts_exceeded';
+
+export interface FailureClassification {
+  failureClass: FailureClass;
+  reasonCode: FailureReasonCode;
 }
 
 export interface QueueProcessingResult {
@@ -81,8 +270,56 @@ export interface QueueProcessingResult {
   processingTime: number;
   error?: string;
   shouldRetry: boolean;
+  // Set on failures, a terminal failure is dead-lettered right away whatever shouldRetry says
+  failureClass?: FailureClass;
+  reasonCode?: FailureReasonCode;
+}
+
+export type IdempotencyStatus = 'queued' | 'processing' | 'retrying' | 'completed' | 'dead_lettered';
+
+export type DeadLetterResolution = 'refunded' | 'served';
+
+export interface IdempotencyRecord {
+  txHash: string;
+  paymentIndex: number;
+  status: IdempotencyStatus;
+  beerTapId?: string;
+  itemId?: string;
+  // Set when an operator settled a dead-lettered payment outside the queue
+  resolution?: DeadLetterResolution;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type DeadLetterAction = 'requeue' | 'requeue_all' | 'purge' | 'resolve';
+
+export interface DeadLetterAuditEntry {
+  id: string;
+  action: DeadLetterAction;
+  beerTapId: string;
+  actor: string;
+  itemIds: string[];
+  resolution?: DeadLetterResolution;
+  note?: string;
+  // The items as they were before the action, so purged items stay traceable
+  items: QueueItem<BeerTapQueueItem>[];
+  timestamp: Date;
+}
+
+export interface WebhookTransactionResult {
+  duplicate: boolean;
+  record?: IdempotencyRecord;
 }
 
 export type QueueEventHandler = (event: QueueEvent) => void | Promise<void>;
 export type StatusChangeHandler = (event: StatusChangeEvent) => void | Promise<void>;
-export type QueueProcessor<T> = (item: QueueItem<T>) => Promise<QueueProcessingResult>;
+export type StatusPollHandler = (event: StatusPollEvent) => void;
+export type BeerTapQueueStateProvider = (beerTapId: string) => Promise<BeerTapQueueState>;
+export interface QueueProcessingContext {
+  /**
+   * Persists the item's current data, so an item recovered after a crash resumes from this point
+   */
+  checkpoint(): Promise<void>;
+}
+
+export type QueueProcessor<T> = (item: QueueItem<T>, context: QueueProcessingContext) => Promise<QueueProcessingResult>;
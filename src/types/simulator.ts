@@ -0,0 +1,55 @@
+/**
+ * Faults the ThingsBoard simulator can inject
+ *
+ * - timeout: holds the request for delayMs, then answers 504 like a device that didn't respond in time
+ * - server_error: answers with the given 5xx status
+ * - stuck_busy: pours on the device never finish, it stays BUSY until the fault is cleared
+ * - auth_expiry: expires every token issued so far, the client has to log in again
+ */
+export type SimulatorFaultType = 'timeout' | 'server_error' | 'stuck_busy' | 'auth_expiry';
+
+// Groups of the ThingsBoard API a fault can be limited to
+export type SimulatorEndpoint = 'auth' | 'rpc' | 'telemetry';
+
+export interface SimulatorFault {
+  type: SimulatorFaultType;
+  // Device the fault applies to, all devices when missing
+  deviceId?: string;
+  // APIs the fault applies to, all when missing
+  endpoints?: SimulatorEndpoint[];
+  // Requests the fault applies to before it clears itself, unlimited when missing
+  count?: number;
+  // Response status for server_error
+  status?: number;
+  // How long a timeout holds the request (ms)
+  delayMs?: number;
+}
+
+// Device values an operator can set to put a simulated tap into a given state
+export interface SimulatorDeviceUpdate {
+  active?: boolean;
+  mode?: string;
+  kegEmpty?: boolean;
+  flowFault?: boolean;
+  kegLevel?: number;
+}
+
+export interface SimulatorDeviceState extends Required<Omit<SimulatorDeviceUpdate, 'kegLevel'>> {
+  deviceId: string;
+  cupSize: number;
+  remainingVolume: number;
+  kegLevel?: number;
+  pourCount: number;
+}
+
+export interface ThingsBoardSimulatorOptions {
+  // Pour speed of the simulated devices (ml/s)
+  pourRate: number;
+  // Keg volume of every device (ml), unlimited when missing
+  kegVolume?: number;
+  // Account accepted by the login, any credentials are accepted when missing
+  username?: string;
+  password?: string;
+  // Lifetime of issued access tokens (s)
+  tokenTtl: number;
+}
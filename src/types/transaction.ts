@@ -1,4 +1,5 @@
 import { Address, Hex } from 'viem';
+import { Logger } from './logger.js';
 
 export interface TransactionResponse {
   payment: Payment;
@@ -28,3 +29,14 @@ export interface ReceiverYodlConfig {
   chains: string;
   tokens: string;
 }
+
+export type PaymentLookupResult =
+  { status: 'found'; payment: Payment; source: string; cached: boolean } | { status: 'pending'; firstSeenAt: Date };
+
+export interface PaymentSource {
+  readonly name: string;
+  /**
+   * @param chainId - Chain the transaction was sent on, if known; sources that need it search all known chains otherwise
+   */
+  lookupPayment(txHash: Hex, logger?: Logger, chainId?: number): Promise<PaymentLookupResult>;
+}
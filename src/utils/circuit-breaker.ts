@@ -0,0 +1,59 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Minimal circuit breaker
+ *
+ * After `threshold` consecutive failures the circuit opens and calls are refused for
+ * `cooldownMs`. The first call after the cooldown is let through as a trial: success
+ * closes the circuit again, failure re-opens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly threshold: number;
+  private readonly cooldownMs: number;
+
+  constructor(threshold: number, cooldownMs: number) {
+    this.threshold = threshold;
+    this.cooldownMs = cooldownMs;
+  }
+
+  public canRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  public recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.threshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+}
@@ -0,0 +1,102 @@
+import { QueueStatus } from '../types/queue.js';
+
+// Device attributes read for the status: cupSize is set by the pour RPC and cleared when the pour ends,
+// active is maintained by ThingsBoard, mode and kegEmpty are reported by the tap
+export const DEVICE_ATTRIBUTE_KEYS = ['cupSize', 'active', 'mode', 'kegEmpty'];
+
+// Latest telemetry read for the status: remainingVolume of the pour and kegLevel in ml, flowFault as a flag
+export const DEVICE_TELEMETRY_KEYS = ['flowFault', 'remainingVolume', 'kegLevel'];
+
+const MAINTENANCE_MODES = ['cleaning', 'maintenance'];
+
+// A device value and when it was last updated (ms)
+export type DeviceValue = { value: unknown; ts: number };
+
+/**
+ * How the processor handles a tap in a given status
+ *
+ * - pour: trigger the tap
+ * - wait: the tap should become ready on its own, wait for it and retry the item later
+ * - reroute: hand the item over to a fallback tap, dead-letter it if there is none
+ * - dead_letter: the pour can't be served until an operator steps in, dead-letter it for a refund
+ */
+export type StatusReaction = 'pour' | 'wait' | 'reroute' | 'dead_letter';
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value === 'true' || Number(value) > 0;
+  }
+  return value === true || (typeof value === 'number' && value > 0);
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value === null || value === '' || !Number.isFinite(number) ? undefined : number;
+}
+
+/**
+ * Resolves the status of a tap from its device attributes and telemetry
+ *
+ * Checked from the most to the least severe: a device that is offline or reports a flow fault
+ * says nothing reliable about its keg or pour, maintenance overrides the keg, and only a tap
+ * that can serve is READY or BUSY depending on whether a pour is in progress.
+ *
+ * @param values - Device values by key, missing keys are treated as not reported
+ * @returns The status, or null if the cupSize attribute every tap reports is missing
+ */
+export function resolveDeviceStatus(
+  values: Record<string, DeviceValue>
+): { status: QueueStatus; remainingVolume?: number; timestamp: Date } | null {
+  const { cupSize, active, mode, kegEmpty, flowFault, remainingVolume, kegLevel } = values;
+  if (!cupSize) {
+    return null;
+  }
+
+  const timestamp = new Date(Math.max(...Object.values(values).map(({ ts }) => ts)));
+
+  if (active && !toBoolean(active.value)) {
+    return { status: QueueStatus.OFFLINE, timestamp };
+  }
+  if (flowFault && toBoolean(flowFault.value)) {
+    return { status: QueueStatus.FLOW_FAULT, timestamp };
+  }
+  if (mode && MAINTENANCE_MODES.includes(String(mode.value).toLowerCase())) {
+    return { status: QueueStatus.MAINTENANCE, timestamp };
+  }
+
+  const kegVolume = toNumber(kegLevel?.value);
+  if ((kegEmpty && toBoolean(kegEmpty.value)) || (kegVolume !== undefined && kegVolume <= 0)) {
+    return { status: QueueStatus.KEG_EMPTY, timestamp };
+  }
+
+  if (toNumber(cupSize.value) === 0) {
+    return { status: QueueStatus.READY, timestamp };
+  }
+
+  // Taps that don't report the remaining volume are assumed to have the whole pour left
+  return {
+    status: QueueStatus.BUSY,
+    remainingVolume: toNumber(remainingVolume?.value) ?? toNumber(cupSize.value),
+    timestamp,
+  };
+}
+
+export function getStatusReaction(status: QueueStatus): StatusReaction {
+  switch (status) {
+    case QueueStatus.READY:
+      return 'pour';
+    case QueueStatus.KEG_EMPTY:
+      return 'reroute';
+    case QueueStatus.FLOW_FAULT:
+      return 'dead_letter';
+    default:
+      return 'wait';
+  }
+}
+
+/**
+ * Whether a tap can take over pours from another one, it has to be serving or about to
+ */
+export function canTakeOverPours(status: QueueStatus): boolean {
+  return status === QueueStatus.READY || status === QueueStatus.BUSY || status === QueueStatus.PROCESSING;
+}
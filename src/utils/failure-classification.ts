@@ -0,0 +1,63 @@
+import { isHttpError } from 'http-errors';
+import { FailureClassification, FailureReasonCode } from '../types/queue.js';
+
+const TIMEOUT_ERROR_NAMES = ['TimeoutError', 'AbortError'];
+const TIMEOUT_ERROR_CODES = ['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT'];
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+export function retryable(reasonCode: FailureReasonCode): FailureClassification {
+  return { failureClass: 'retryable', reasonCode };
+}
+
+export function terminal(reasonCode: FailureReasonCode): FailureClassification {
+  return { failureClass: 'terminal', reasonCode };
+}
+
+/**
+ * Sorts a failed pour into one worth retrying or one that will fail the same way every time
+ *
+ * ThingsBoard answering with a 4xx means the request itself is wrong: an unknown device, a
+ * rejected RPC or credentials it doesn't accept. Retrying those only delays the dead letter.
+ * Timeouts, 5xx and dropped connections are transient. Anything unrecognised is retried, the
+ * item's attempt limit still bounds it.
+ */
+export function classifyFailure(error: unknown): FailureClassification {
+  if (isHttpError(error)) {
+    const status = error.status;
+
+    if (status === 408) {
+      return retryable('timeout');
+    }
+    if (status === 429) {
+      return retryable('rate_limited');
+    }
+    if (status === 401 || status === 403) {
+      return terminal('tap_misconfigured');
+    }
+    if (status === 404) {
+      return terminal('device_not_found');
+    }
+    if (status >= 400 && status < 500) {
+      return terminal('device_rejected');
+    }
+    return retryable('device_unavailable');
+  }
+
+  if (error instanceof Error) {
+    // fetch reports network failures as a TypeError with the system error as its cause
+    const { code, cause } = error as Error & { code?: string; cause?: { code?: string } };
+    const codes = [code, cause?.code].filter((value): value is string => value !== undefined);
+
+    if (TIMEOUT_ERROR_NAMES.includes(error.name) || codes.some(value => TIMEOUT_ERROR_CODES.includes(value))) {
+      return retryable('timeout');
+    }
+    if (codes.some(value => CONNECTION_ERROR_CODES.includes(value))) {
+      return retryable('device_unavailable');
+    }
+    if (error.message.includes('authentication not configured')) {
+      return terminal('tap_misconfigured');
+    }
+  }
+
+  return retryable('unknown');
+}
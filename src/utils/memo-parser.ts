@@ -0,0 +1,195 @@
+import { config, getBeerTapId } from '../config/index.js';
+import type { PriceTier } from './pour.js';
+import { parseClockTime, PourSchedule } from './schedule.js';
+
+/**
+ * Beer tap type from config
+ */
+type BeerTap = (typeof config.beerTaps)[0];
+
+export interface ParsedMemo {
+  status: 'matched';
+  tap: BeerTap;
+  beerTapId: string;
+  matchedBy: 'tap_id' | 'memo';
+  quantity?: number;
+  orderReference?: string;
+  priceTier?: PriceTier;
+  schedule?: PourSchedule;
+}
+
+export interface UnmatchedMemo {
+  status: 'no_match' | 'ambiguous' | 'invalid';
+  error: string;
+  candidates: string[];
+}
+
+export type MemoParseResult = ParsedMemo | UnmatchedMemo;
+
+const TAP_ID_PATTERN = /^tap:(.+)$/i;
+const QUANTITY_PATTERN = /^x(\d+)$/i;
+const ORDER_REFERENCE_PATTERN = /^(?:#|ref:)([\w-]+)$/i;
+const DELAY_PATTERN = /^in:(\d+)(m|h)$/i;
+const POUR_AT_PATTERN = /^at:(.+)$/i;
+
+interface MemoMatch {
+  tap: BeerTap;
+  start: number;
+  length: number;
+}
+
+function tokenize(value: string): string[] {
+  return value.trim().toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Finds where the tap memo occurs in the memo as a run of whole tokens, so "Chopp" never matches "Chopper"
+ */
+function findTokenRun(tokens: string[], needle: string[]): number {
+  for (let start = 0; start + needle.length <= tokens.length; start++) {
+    if (needle.every((token, offset) => tokens[start + offset] === token)) {
+      return start;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses a transaction memo into a tap selection plus optional directives
+ *
+ * Grammar (tokens are whitespace separated, case-insensitive, in any order):
+ * - `tap:<id>` selects the tap with that id explicitly
+ * - otherwise the tap whose transactionMemo occurs as whole tokens; the longest memo wins,
+ *   and a tap with an empty transactionMemo only matches when nothing else does
+ * - `x<qty>` requests a number of cups, e.g. `x3`
+ * - `#<ref>` or `ref:<ref>` attaches an order reference
+ * - `in:<n>m` or `in:<n>h` delays the pour, e.g. `in:45m`
+ * - `at:<HH:MM>` pours at that time in the tap's time zone, e.g. `at:21:45` for half-time
+ * - any remaining token naming a price tier's memoSuffix selects that tier
+ *
+ * @param memo - The transaction memo
+ * @param receiverEns - Optional receiver used to break ties between taps sharing a memo
+ * @param taps - Taps to match against, defaults to the configured taps
+ * @returns The matched tap and directives, or why no single tap could be selected
+ */
+export function parseMemo(memo: string, receiverEns?: string, taps: BeerTap[] = config.beerTaps): MemoParseResult {
+  const rawTokens = memo.trim().split(/\s+/).filter(Boolean);
+  const tokens = rawTokens.map(token => token.toLowerCase());
+  const consumed = new Set<number>();
+  let quantity: number | undefined;
+  let orderReference: string | undefined;
+  let requestedTapId: string | undefined;
+  let schedule: PourSchedule | undefined;
+
+  for (const [index, token] of tokens.entries()) {
+    const tapIdMatch = token.match(TAP_ID_PATTERN);
+    const quantityMatch = token.match(QUANTITY_PATTERN);
+    const referenceMatch = rawTokens[index].match(ORDER_REFERENCE_PATTERN);
+    const delayMatch = token.match(DELAY_PATTERN);
+    const pourAtMatch = token.match(POUR_AT_PATTERN);
+
+    if (tapIdMatch) {
+      if (requestedTapId !== undefined) {
+        return { status: 'invalid', error: 'Memo selects more than one tap', candidates: [] };
+      }
+      requestedTapId = tapIdMatch[1];
+    } else if (quantityMatch) {
+      if (quantity !== undefined) {
+        return { status: 'invalid', error: 'Memo specifies more than one quantity', candidates: [] };
+      }
+      quantity = Number(quantityMatch[1]);
+      if (quantity < 1) {
+        return { status: 'invalid', error: 'Memo quantity must be at least 1', candidates: [] };
+      }
+    } else if (referenceMatch) {
+      orderReference = referenceMatch[1];
+    } else if (delayMatch || pourAtMatch) {
+      if (schedule !== undefined) {
+        return { status: 'invalid', error: 'Memo schedules the pour more than once', candidates: [] };
+      }
+
+      if (delayMatch) {
+        schedule = { type: 'delay', minutes: Number(delayMatch[1]) * (delayMatch[2] === 'h' ? 60 : 1) };
+      } else {
+        const time = parseClockTime(pourAtMatch![1]);
+        if (!time) {
+          return { status: 'invalid', error: `Memo pour time must be HH:MM: ${pourAtMatch![1]}`, candidates: [] };
+        }
+        schedule = { type: 'at', ...time };
+      }
+    } else {
+      continue;
+    }
+
+    consumed.add(index);
+  }
+
+  let selected: BeerTap;
+  let matchedBy: ParsedMemo['matchedBy'];
+
+  if (requestedTapId !== undefined) {
+    const tap = taps.find(candidate => getBeerTapId(candidate).toLowerCase() === requestedTapId);
+    if (!tap) {
+      return { status: 'invalid', error: `Memo selects unknown tap: ${requestedTapId}`, candidates: [] };
+    }
+
+    selected = tap;
+    matchedBy = 'tap_id';
+  } else {
+    const freeTokens = tokens.map((token, index) => (consumed.has(index) ? '' : token));
+    const matches: MemoMatch[] = [];
+
+    for (const tap of taps) {
+      const needle = tokenize(tap.transactionMemo);
+      const start = needle.length === 0 ? 0 : findTokenRun(freeTokens, needle);
+      if (start !== -1) {
+        matches.push({ tap, start, length: needle.length });
+      }
+    }
+
+    if (matches.length === 0) {
+      return { status: 'no_match', error: 'Memo does not match any beer tap', candidates: [] };
+    }
+
+    const longest = Math.max(...matches.map(match => match.length));
+    let best = matches.filter(match => match.length === longest);
+
+    if (best.length > 1 && receiverEns !== undefined) {
+      const sameReceiver = best.filter(match => match.tap.transactionReceiverEns === receiverEns);
+      if (sameReceiver.length > 0) {
+        best = sameReceiver;
+      }
+    }
+
+    if (best.length > 1) {
+      return {
+        status: 'ambiguous',
+        error: 'Memo matches more than one beer tap',
+        candidates: best.map(match => getBeerTapId(match.tap)),
+      };
+    }
+
+    selected = best[0].tap;
+    matchedBy = 'memo';
+
+    for (let offset = 0; offset < best[0].length; offset++) {
+      consumed.add(best[0].start + offset);
+    }
+  }
+
+  const remainingTokens = tokens.filter((_, index) => !consumed.has(index));
+  const priceTier = selected.prices.find(
+    tier => tier.memoSuffix !== undefined && remainingTokens.includes(tier.memoSuffix.toLowerCase())
+  );
+
+  return {
+    status: 'matched',
+    tap: selected,
+    beerTapId: getBeerTapId(selected),
+    matchedBy,
+    quantity,
+    orderReference,
+    priceTier,
+    schedule,
+  };
+}
@@ -0,0 +1,88 @@
+import { config } from '../config/index.js';
+import { PourPlan } from '../types/queue.js';
+
+/**
+ * Beer tap type from config
+ */
+type BeerTap = (typeof config.beerTaps)[0];
+
+/**
+ * Price tier type from config
+ */
+export type PriceTier = BeerTap['prices'][0];
+
+/**
+ * Guards against floating point noise such as 29.999999 / 10 when counting cups
+ */
+const EPSILON = 1e-9;
+
+/**
+ * Picks the price tier a payment is for: the tier named in the memo, or else the largest tier the payment covers
+ *
+ * @param tap - The beer tap the payment was made for
+ * @param paidAmount - The amount paid per cup, in the tap's transaction currency
+ * @param namedTier - The tier named in the memo, if any
+ * @param tolerancePercent - How far below a tier's price the payment may fall and still cover it
+ * @returns The selected tier, or null if the payment doesn't cover it
+ */
+export function selectPriceTier(
+  tap: BeerTap,
+  paidAmount: number,
+  namedTier?: PriceTier,
+  tolerancePercent = 0
+): PriceTier | null {
+  const covers = (tier: PriceTier) => paidAmount + EPSILON >= Number(tier.amount) * (1 - tolerancePercent / 100);
+
+  if (namedTier) {
+    return covers(namedTier) ? namedTier : null;
+  }
+
+  // Prices are sorted ascending by the config schema
+  const coveredTiers = tap.prices.filter(covers);
+  return coveredTiers.length > 0 ? coveredTiers[coveredTiers.length - 1] : null;
+}
+
+/**
+ * Works out how much beer a payment buys for the selected price tier
+ *
+ * @param tap - The beer tap the payment was made for
+ * @param tier - The price tier selected for the payment
+ * @param paidAmount - The invoice amount, in the tap's transaction currency
+ * @returns The pour plan, or null if the tap rejects overpayments and the payment is above the tier price
+ */
+export function calculatePourPlan(tap: BeerTap, tier: PriceTier, paidAmount: number): PourPlan | null {
+  const price = Number(tier.amount);
+  const ratio = price > 0 ? paidAmount / price : 1;
+  const { mode, maxCups, maxVolume } = tap.overpayment;
+
+  switch (mode) {
+    case 'reject':
+      if (ratio > 1 + EPSILON) {
+        return null;
+      }
+      return { quantity: 1, cupSize: tier.cupSize };
+    case 'proportional': {
+      const volume = Math.round(tier.cupSize * Math.max(ratio, 1));
+      return { quantity: 1, cupSize: Math.min(volume, maxVolume ?? tier.cupSize) };
+    }
+    case 'cups':
+    default:
+      return {
+        quantity: Math.min(Math.max(Math.floor(ratio + EPSILON), 1), maxCups),
+        cupSize: tier.cupSize,
+      };
+  }
+}
+
+/**
+ * Scales the pour for one cup's share of a payment to the number of cups the memo asked for, e.g. "x3"
+ *
+ * @param tap - The beer tap the payment was made for
+ * @param cupPour - The pour plan for one cup's share of the payment
+ * @param requestedQuantity - The quantity from the memo
+ * @returns The pour plan, or null if it comes to more cups than the tap pours for one payment
+ */
+export function scalePourPlan(tap: BeerTap, cupPour: PourPlan, requestedQuantity: number): PourPlan | null {
+  const quantity = cupPour.quantity * requestedQuantity;
+  return quantity > tap.overpayment.maxCups ? null : { ...cupPour, quantity };
+}
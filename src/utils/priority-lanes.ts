@@ -0,0 +1,69 @@
+import { QueueItem, QueuePriority } from '../types/queue.js';
+
+// Lanes in tie-break order, the normal lane keeps the plain queue key so items queued before lanes existed are kept
+export const QUEUE_PRIORITIES = [QueuePriority.HIGH, QueuePriority.NORMAL, QueuePriority.LOW];
+
+export function getLaneKey(queueName: string, priority: QueuePriority = QueuePriority.NORMAL): string {
+  return priority === QueuePriority.NORMAL ? queueName : `${queueName}:lane:${priority}`;
+}
+
+/**
+ * Ranks an item for service across lanes
+ *
+ * A lane's head start lets its items overtake items of other lanes that were queued up to that long
+ * before them, but never longer, so a busy high lane delays the normal lane by at most its head start.
+ */
+export function getRank(
+  enqueuedAt: number,
+  priority: QueuePriority,
+  headStarts: Record<QueuePriority, number>
+): number {
+  return enqueuedAt - headStarts[priority];
+}
+
+/**
+ * Orders queued items the way the reserve script serves them: always the lane head with the lowest rank,
+ * ties going to the higher lane
+ *
+ * @param lanes - Each lane's items in service order, in QUEUE_PRIORITIES order
+ */
+export function orderByService<T>(lanes: QueueItem<T>[][]): QueueItem<T>[] {
+  const heads = lanes.map(() => 0);
+  const ordered: QueueItem<T>[] = [];
+
+  for (;;) {
+    let next = -1;
+
+    lanes.forEach((lane, index) => {
+      if (heads[index] < lane.length) {
+        const rank = lane[heads[index]].rank ?? 0;
+        if (next === -1 || rank < (lanes[next][heads[next]].rank ?? 0)) {
+          next = index;
+        }
+      }
+    });
+
+    if (next === -1) {
+      return ordered;
+    }
+
+    ordered.push(lanes[next][heads[next]++]);
+  }
+}
+
+/**
+ * Resolves which lane a pour goes to from the tap's wallet list, matching the sender's address or ENS name
+ */
+export function getWalletPriority(
+  wallets: Record<string, QueuePriority>,
+  senderAddress: string,
+  senderEnsName?: string
+): QueuePriority {
+  const lookup = new Map(Object.entries(wallets).map(([wallet, priority]) => [wallet.toLowerCase(), priority]));
+
+  return (
+    lookup.get(senderAddress.toLowerCase()) ??
+    (senderEnsName ? lookup.get(senderEnsName.toLowerCase()) : undefined) ??
+    QueuePriority.NORMAL
+  );
+}
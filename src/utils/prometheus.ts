@@ -0,0 +1,165 @@
+/**
+ * Minimal Prometheus metrics registry rendering the text exposition format
+ *
+ * Counters, gauges and histograms with labels, kept in memory per process. Gauges that
+ * mirror state held elsewhere are refreshed by collectors right before each scrape.
+ */
+
+export type Labels = Record<string, string>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return '+Inf';
+  }
+  return Number.isNaN(value) ? 'NaN' : value.toString();
+}
+
+// Stable key for a label set, independent of the order labels were passed in
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+abstract class Metric {
+  public readonly name: string;
+  public readonly help: string;
+  protected abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  protected abstract samples(): string[];
+
+  public render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  protected readonly type = 'counter';
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  public inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    this.values.set(key, { labels, value: (current?.value ?? 0) + value });
+  }
+
+  // For counters that mirror a total kept elsewhere, e.g. in Redis across instances, refreshed by a collector
+  public set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Gauge extends Metric {
+  protected readonly type = 'gauge';
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  public set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  // Drops all series, for gauges rebuilt by a collector so removed label sets don't linger
+  public reset(): void {
+    this.values.clear();
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Histogram extends Metric {
+  protected readonly type = 'histogram';
+  private readonly buckets: number[];
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  public observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const series = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+
+    this.values.set(key, series);
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values()).flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${formatValue(counts[index])}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${formatValue(count)}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${formatValue(count)}`,
+    ]);
+  }
+}
+
+export class Registry {
+  private metrics: Metric[] = [];
+  private collectors: (() => Promise<void>)[] = [];
+
+  public counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  public gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  public histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  public addCollector(collector: () => Promise<void>): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Runs the collectors and renders all metrics, a failing collector leaves its gauges as they were
+   */
+  public async render(): Promise<string> {
+    await Promise.allSettled(this.collectors.map(collector => collector()));
+    return `${this.metrics.map(metric => metric.render()).join('\n')}\n`;
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
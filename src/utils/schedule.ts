@@ -0,0 +1,126 @@
+import { config } from '../config/index.js';
+
+/**
+ * Beer tap type from config
+ */
+type BeerTap = (typeof config.beerTaps)[0];
+
+export type PourSchedule = { type: 'delay'; minutes: number } | { type: 'at'; hour: number; minute: number };
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Parses a wall clock time such as "21:45"
+ */
+export function parseClockTime(value: string): { hour: number; minute: number } | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in ms
+ */
+function getTimeZoneOffset(timeZone: string, at: number): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(new Date(at))
+      .map(part => [part.type, Number(part.value)])
+  );
+
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(at / 1000) * 1000;
+}
+
+/**
+ * Finds the instants around now at which the wall clock in the time zone shows the given time
+ *
+ * @returns The last occurrence at or before now and the first one after it
+ */
+function getOccurrences(
+  hour: number,
+  minute: number,
+  timeZone: string,
+  now: number
+): { previous: number; next: number } {
+  const offset = getTimeZoneOffset(timeZone, now);
+  const localNow = now + offset;
+  const localMidnight = localNow - (((localNow % DAY) + DAY) % DAY);
+
+  const occurrenceOn = (midnight: number) => {
+    const occurrence = midnight + (hour * 60 + minute) * MINUTE;
+    // Correct for a DST change between now and the occurrence
+    return occurrence - getTimeZoneOffset(timeZone, occurrence - offset);
+  };
+
+  const today = occurrenceOn(localMidnight);
+  return today <= now
+    ? { previous: today, next: occurrenceOn(localMidnight + DAY) }
+    : { previous: occurrenceOn(localMidnight - DAY), next: today };
+}
+
+/**
+ * Works out when a pour should start, from the memo's schedule or else the tap's default
+ *
+ * A clock time that passed less than the tap's maximum delay ago is taken as running late and poured right
+ * away, so paying at 21:50 for "at:21:45" doesn't wait for tomorrow.
+ *
+ * @param tap - The beer tap the payment was made for
+ * @param memoSchedule - The schedule requested in the memo, if any
+ * @param now - The time the payment is queued
+ * @returns The time to pour at, null to pour right away, or an error if the schedule is too far out
+ */
+export function resolvePourTime(
+  tap: BeerTap,
+  memoSchedule: PourSchedule | undefined,
+  now = Date.now()
+): { scheduledAt: Date | null } | { error: string } {
+  const maxDelay = tap.schedule.maxDelayMinutes * MINUTE;
+  const tapPourAt = tap.schedule.pourAt ? parseClockTime(tap.schedule.pourAt) : null;
+  const schedule: PourSchedule | undefined =
+    memoSchedule ??
+    (tapPourAt
+      ? { type: 'at', ...tapPourAt }
+      : tap.schedule.delayMinutes > 0
+        ? { type: 'delay', minutes: tap.schedule.delayMinutes }
+        : undefined);
+
+  if (!schedule) {
+    return { scheduledAt: null };
+  }
+
+  if (schedule.type === 'delay') {
+    if (schedule.minutes * MINUTE > maxDelay) {
+      return { error: `Pour can be delayed by at most ${tap.schedule.maxDelayMinutes} minutes` };
+    }
+    return { scheduledAt: schedule.minutes > 0 ? new Date(now + schedule.minutes * MINUTE) : null };
+  }
+
+  const { previous, next } = getOccurrences(schedule.hour, schedule.minute, tap.schedule.timezone, now);
+  const runningLate = now - previous <= maxDelay;
+
+  if (next - now <= maxDelay && !(runningLate && now - previous < next - now)) {
+    return { scheduledAt: new Date(next) };
+  }
+
+  if (runningLate) {
+    return { scheduledAt: null };
+  }
+
+  return { error: `Pour can be scheduled at most ${tap.schedule.maxDelayMinutes} minutes ahead` };
+}
@@ -0,0 +1,39 @@
+import { Hex, isAddressEqual, recoverMessageAddress } from 'viem';
+import { config } from '../config/index.js';
+
+/**
+ * Webhook signer type from config
+ */
+export type WebhookSigner = (typeof config.yodl.signers)[number];
+
+/**
+ * Returns the signers whose validity window contains the given time
+ */
+export function getActiveSigners(signers: WebhookSigner[], at = new Date()): WebhookSigner[] {
+  return signers.filter(
+    signer => (!signer.validFrom || signer.validFrom <= at) && (!signer.validUntil || at < signer.validUntil)
+  );
+}
+
+/**
+ * Finds the active signer that produced a signature over a message
+ *
+ * The signing address is recovered once and compared against every active signer, so
+ * adding signers for key rotation or a second environment costs no extra verification.
+ *
+ * @param message - The signed message
+ * @param signature - The signature to check
+ * @param signers - Trusted signers, defaults to YODL_SIGNERS
+ * @param at - Time to check validity windows against
+ * @returns The matching signer, or null if no active signer produced the signature
+ */
+export async function findMatchingSigner(
+  message: string,
+  signature: Hex,
+  signers: WebhookSigner[] = config.yodl.signers,
+  at = new Date()
+): Promise<WebhookSigner | null> {
+  const recovered = await recoverMessageAddress({ message, signature });
+
+  return getActiveSigners(signers, at).find(signer => isAddressEqual(signer.address as Hex, recovered)) ?? null;
+}
@@ -0,0 +1,93 @@
+import { isAddressEqual, parseUnits } from 'viem';
+import { config } from '../config/index.js';
+import type { Payment } from '../types/transaction.js';
+
+/**
+ * Token rules type from config
+ */
+type TokenRules = NonNullable<(typeof config.beerTaps)[0]['tokenRules']>;
+
+export type TokenRuleViolationReason =
+  | 'chain_not_allowed'
+  | 'cross_chain_not_allowed'
+  | 'token_not_allowed'
+  | 'token_amount_below_minimum'
+  | 'token_amount_invalid';
+
+export interface TokenRuleViolation {
+  reason: TokenRuleViolationReason;
+  message: string;
+}
+
+/**
+ * Parses a decimal token amount into base units, truncating digits beyond the given precision
+ */
+function toBaseUnits(amount: string, decimals: number): bigint | null {
+  const [whole, fraction = ''] = amount.trim().split('.');
+  if (!/^\d+$/.test(whole) || !/^\d*$/.test(fraction)) {
+    return null;
+  }
+
+  return parseUnits(fraction ? `${whole}.${fraction.slice(0, decimals)}` : whole, decimals);
+}
+
+/**
+ * Checks what actually settled on chain against a tap's token rules
+ *
+ * @param rules - The tap's token rules
+ * @param payment - The payment as returned by the indexer
+ * @returns The first violated rule, or null if the payment satisfies all rules
+ */
+export function checkTokenRules(rules: TokenRules, payment: Payment): TokenRuleViolation | null {
+  if (rules.sameChainOnly && payment.chainId !== payment.destinationChainId) {
+    return {
+      reason: 'cross_chain_not_allowed',
+      message: `Payment was bridged from chain ${payment.chainId} to chain ${payment.destinationChainId}`,
+    };
+  }
+
+  if (rules.allowedChains && !rules.allowedChains.includes(payment.destinationChainId)) {
+    return {
+      reason: 'chain_not_allowed',
+      message: `Payment settled on chain ${payment.destinationChainId}, allowed chains: ${rules.allowedChains.join(', ')}`,
+    };
+  }
+
+  if (rules.allowedTokens) {
+    const isAllowedToken = rules.allowedTokens.some(token => {
+      try {
+        return isAddressEqual(token as `0x${string}`, payment.tokenOutAddress);
+      } catch {
+        return false;
+      }
+    });
+
+    if (!isAllowedToken) {
+      return {
+        reason: 'token_not_allowed',
+        message: `Payment settled in ${payment.tokenOutSymbol} (${payment.tokenOutAddress}), which is not an allowed token`,
+      };
+    }
+  }
+
+  if (rules.minTokenAmount) {
+    const received = toBaseUnits(payment.tokenOutAmountGross, rules.tokenDecimals);
+    const minimum = toBaseUnits(rules.minTokenAmount, rules.tokenDecimals)!;
+
+    if (received === null) {
+      return {
+        reason: 'token_amount_invalid',
+        message: `Payment token amount ${payment.tokenOutAmountGross} could not be parsed`,
+      };
+    }
+
+    if (received < minimum) {
+      return {
+        reason: 'token_amount_below_minimum',
+        message: `Payment settled ${payment.tokenOutAmountGross} ${payment.tokenOutSymbol}, minimum is ${rules.minTokenAmount}`,
+      };
+    }
+  }
+
+  return null;
+}